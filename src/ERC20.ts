@@ -0,0 +1,267 @@
+/**
+ * Minimal ERC-20 helper used by `SecuredLine` to inspect and manage the
+ * credit token a borrower repays with.
+ *
+ * @example
+ * ```ts
+ * const usdc = new ERC20({ address: position.token, publicClient, walletClient });
+ *
+ * const balance = await usdc.balanceOf(walletAddress);
+ * await usdc.approve(lineAddress, 10_000_000_000n);
+ * ```
+ */
+
+import {
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+  encodeFunctionData,
+  erc20Abi,
+  maxUint256,
+} from "viem";
+
+import { type TokenMetadata } from "./amounts";
+import {
+  InsufficientAllowanceError,
+  InsufficientBalanceError,
+  NoSignerError,
+} from "./errors";
+import {
+  type PendingTransaction,
+  type TransactionOptions,
+  submitTransaction,
+} from "./transactions";
+
+/**
+ * How a repayment method handles the credit token allowance:
+ *  - `"exact"`:    approve exactly the amount being pulled when the current
+ *                  allowance is too low.
+ *  - `"infinite"`: approve `maxUint256` when the current allowance is too low.
+ *  - `"none"`:     never send an approval; fail pre-flight if the allowance is
+ *                  too low.
+ */
+export type ApproveMode = "exact" | "infinite" | "none";
+
+export class ERC20 {
+  readonly address: Address;
+  private publicClient: PublicClient;
+  private walletClient: WalletClient<Transport, Chain, Account> | undefined;
+  private transactionOptions: TransactionOptions;
+  private metadata: Promise<TokenMetadata> | undefined;
+
+  /**
+   * Creates a new `ERC20` helper.
+   *
+   * @param params.address             Token contract address.
+   * @param params.publicClient        Client used for reads and receipts.
+   * @param params.walletClient        Optional client used to sign approvals.
+   * @param params.transactionOptions  Default confirmations, timeout and fee
+   *                                   strategy of approvals.
+   */
+  constructor({
+    address,
+    publicClient,
+    walletClient,
+    transactionOptions = {},
+  }: {
+    address: Address;
+    publicClient: PublicClient;
+    walletClient?: WalletClient<Transport, Chain, Account>;
+    transactionOptions?: TransactionOptions;
+  }) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.transactionOptions = transactionOptions;
+  }
+
+  /**
+   * Reads the token balance of `owner` in smallest token units.
+   */
+  async balanceOf(owner: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [owner],
+    });
+  }
+
+  /**
+   * Reads how much `spender` may pull from `owner` in smallest token units.
+   */
+  async allowance(owner: Address, spender: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [owner, spender],
+    });
+  }
+
+  /**
+   * Reads the token name, symbol and decimals. The result is cached for the
+   * lifetime of this instance.
+   */
+  async getMetadata(): Promise<TokenMetadata> {
+    if (!this.metadata) {
+      this.metadata = Promise.all([
+        this.publicClient.readContract({
+          address: this.address,
+          abi: erc20Abi,
+          functionName: "name",
+        }),
+        this.publicClient.readContract({
+          address: this.address,
+          abi: erc20Abi,
+          functionName: "symbol",
+        }),
+        this.publicClient.readContract({
+          address: this.address,
+          abi: erc20Abi,
+          functionName: "decimals",
+        }),
+      ]).then(([name, symbol, decimals]) => ({
+        address: this.address,
+        name,
+        symbol,
+        decimals,
+      }));
+      this.metadata.catch(() => {
+        this.metadata = undefined;
+      });
+    }
+
+    return this.metadata;
+  }
+
+  /**
+   * Approves `spender` to pull `amount` tokens from the signing wallet and
+   * waits for the approval to be mined.
+   *
+   * Like line writes, approvals signed by a local account take their nonce
+   * from the account's shared `NonceManager`.
+   *
+   * @param spender  Address allowed to pull the tokens.
+   * @param amount   Allowance in smallest token units.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<Hex>` — the approval transaction hash once
+   *          it is confirmed.
+   *
+   * @throws `NoSignerError` — If the helper was created without a wallet client
+   */
+  approve(
+    spender: Address,
+    amount: bigint,
+    options: TransactionOptions = {},
+  ): PendingTransaction<Hex> {
+    return submitTransaction({
+      publicClient: this.publicClient,
+      prepare: async () => ({
+        walletClient: this.signer,
+        request: {
+          to: this.address,
+          data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: "approve",
+            args: [spender, amount],
+          }),
+        },
+      }),
+      onMined: (receipt) => receipt.transactionHash,
+      options: { ...this.transactionOptions, ...options },
+    });
+  }
+
+  /**
+   * Verifies that the signing wallet can pay `amount` to `spender`, sending an
+   * approval first according to `mode`.
+   *
+   * @param params.spender  Address that will pull the tokens.
+   * @param params.amount   Amount to pay in smallest token units.
+   * @param params.mode     Allowance handling, see `ApproveMode`.
+   * @param options         Per-call `TransactionOptions` of the approval,
+   *                        usually those of the payment it precedes.
+   *
+   * @throws `NoSignerError` — If the helper was created without a wallet client
+   * @throws `InsufficientBalanceError` — If the wallet balance is below `amount`
+   * @throws `InsufficientAllowanceError` — If the allowance is below `amount`
+   *         and `mode` is `"none"`
+   */
+  async ensureCanPay(
+    params: {
+      spender: Address;
+      amount: bigint;
+      mode: ApproveMode;
+    },
+    options: TransactionOptions = {},
+  ) {
+    const approval = await this.getRequiredApproval(params);
+    if (approval !== undefined) {
+      await this.approve(params.spender, approval, options);
+    }
+  }
+
+  /**
+   * Runs the checks of `ensureCanPay` without sending anything.
+   *
+   * @returns `Promise<bigint | undefined>` — the amount `ensureCanPay` would
+   *          approve, or `undefined` if the allowance already covers `amount`.
+   *
+   * @throws `NoSignerError` — If the helper was created without a wallet client
+   * @throws `InsufficientBalanceError` — If the wallet balance is below `amount`
+   * @throws `InsufficientAllowanceError` — If the allowance is below `amount`
+   *         and `mode` is `"none"`
+   */
+  async getRequiredApproval({
+    spender,
+    amount,
+    mode,
+  }: {
+    spender: Address;
+    amount: bigint;
+    mode: ApproveMode;
+  }): Promise<bigint | undefined> {
+    const owner = this.signer.account.address;
+    const [balance, allowance] = await Promise.all([
+      this.balanceOf(owner),
+      this.allowance(owner, spender),
+    ]);
+
+    if (balance < amount) {
+      throw new InsufficientBalanceError({
+        token: this.address,
+        ...(await this.getMetadata()),
+        have: balance,
+        need: amount,
+      });
+    }
+
+    if (allowance >= amount) {
+      return undefined;
+    }
+
+    if (mode === "none") {
+      throw new InsufficientAllowanceError({
+        token: this.address,
+        ...(await this.getMetadata()),
+        have: allowance,
+        need: amount,
+      });
+    }
+
+    return mode === "infinite" ? maxUint256 : amount;
+  }
+
+  private get signer(): WalletClient<Transport, Chain, Account> {
+    if (!this.walletClient) {
+      throw new NoSignerError();
+    }
+    return this.walletClient;
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Wrapper for the **Escrow** module of a secured line, which holds the
+ * borrower's collateral. The line reads its collateral ratio to decide
+ * whether the borrower is under-collateralized.
+ *
+ * @example
+ * ```ts
+ * const escrow = await line.getEscrow();
+ *
+ * const [ratio, minimum] = await Promise.all([
+ *   escrow.getCollateralRatio(),
+ *   escrow.getMinimumCollateralRatio(),
+ * ]);
+ * await escrow.deposit({ token: WETH, amount: 10n ** 18n, approve: "exact" });
+ * ```
+ */
+
+import { type Address, type Hex, type PublicClient } from "viem";
+
+import { type Amount, toRawAmount } from "./amounts";
+import EscrowABI from "./contracts/abis/Escrow";
+import { type ApproveMode, ERC20 } from "./ERC20";
+import { NoSignerError } from "./errors";
+import { MULTICALL3_ADDRESS } from "./LineState";
+import { type SignerClient } from "./signer";
+import {
+  type ContractWriteCall,
+  type PendingTransaction,
+  type TransactionOptions,
+  submitContractWrite,
+} from "./transactions";
+
+/**
+ * Collateral deposited in a token, as returned by `deposited(address)`.
+ */
+export type CollateralDeposit = {
+  token: Address;
+  /** Amount deposited **in smallest token units**. */
+  amount: bigint;
+  /** Whether the token is an ERC-4626 vault share valued by its asset. */
+  isERC4626: boolean;
+  /** Token priced by the oracle: the vault asset, or the token itself. */
+  asset: Address;
+  assetDecimals: number;
+};
+
+export class Escrow {
+  readonly address: Address;
+  private publicClient: PublicClient;
+  private walletClient: SignerClient | undefined;
+  private transactionOptions: TransactionOptions;
+
+  /**
+   * Creates a new `Escrow` wrapper.
+   *
+   * @param params.address             Escrow contract address.
+   * @param params.publicClient        Client used for reads and receipts.
+   * @param params.walletClient        Optional client used to sign writes.
+   * @param params.transactionOptions  Default confirmations, timeout and fee
+   *                                   strategy of every write.
+   */
+  constructor({
+    address,
+    publicClient,
+    walletClient,
+    transactionOptions = {},
+  }: {
+    address: Address;
+    publicClient: PublicClient;
+    walletClient?: SignerClient;
+    transactionOptions?: TransactionOptions;
+  }) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.transactionOptions = transactionOptions;
+  }
+
+  /**
+   * Lists the tokens enabled as collateral.
+   *
+   * Wraps the Solidity call `getEnabledTokens()`.
+   */
+  async getCollateralTokens(): Promise<Address[]> {
+    const tokens = await this.publicClient.readContract({
+      address: this.address,
+      abi: EscrowABI,
+      functionName: "getEnabledTokens",
+    });
+    return [...tokens];
+  }
+
+  /**
+   * Reads the collateral deposited in every enabled token.
+   *
+   * Wraps the Solidity calls `getEnabledTokens()` and `deposited(address
+   * token)`, batched through Multicall3 and pinned to the latest block so
+   * that the deposits match the token list.
+   *
+   * @returns `Promise<CollateralDeposit[]>` — one deposit per enabled token,
+   *          including tokens with nothing deposited.
+   */
+  async getDeposits(): Promise<CollateralDeposit[]> {
+    const escrow = { address: this.address, abi: EscrowABI } as const;
+    const blockNumber = await this.publicClient.getBlockNumber();
+
+    const tokens = await this.publicClient.readContract({
+      ...escrow,
+      functionName: "getEnabledTokens",
+      blockNumber,
+    });
+    const deposits = await this.publicClient.multicall({
+      allowFailure: false,
+      blockNumber,
+      multicallAddress:
+        this.publicClient.chain?.contracts?.multicall3?.address ??
+        MULTICALL3_ADDRESS,
+      contracts: tokens.map(
+        (token) =>
+          ({ ...escrow, functionName: "deposited", args: [token] }) as const,
+      ),
+    });
+
+    return tokens.map((token, i) => ({ token, ...deposits[i] }));
+  }
+
+  /**
+   * Reads the current collateral ratio: the oracle value of the collateral
+   * over the line's debt, in bps.
+   *
+   * Wraps the Solidity call `getCollateralRatio()`, which prices the
+   * collateral through the oracle and is simulated with `eth_call`.
+   *
+   * @returns `Promise<bigint>` — the ratio in bps, `maxUint256` while the
+   *          line has no debt.
+   */
+  async getCollateralRatio(): Promise<bigint> {
+    const { result } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi: EscrowABI,
+      functionName: "getCollateralRatio",
+    });
+    return result;
+  }
+
+  /**
+   * Reads the collateral ratio, in bps, below which the line becomes
+   * liquidatable.
+   *
+   * Wraps the Solidity call `minimumCollateralRatio()`.
+   */
+  async getMinimumCollateralRatio(): Promise<number> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: EscrowABI,
+      functionName: "minimumCollateralRatio",
+    });
+  }
+
+  /**
+   * Deposits collateral from the signing wallet.
+   *
+   * Wraps the Solidity call `addCollateral(uint256 amount, address token)`.
+   * Before sending, the wallet's balance and allowance of `token` are
+   * checked.
+   *
+   * @param params.token    Enabled collateral token.
+   * @param params.amount   Amount to deposit **in smallest token units**, or
+   *                        as a `TokenAmount`.
+   * @param params.approve  Allowance handling, see `ApproveMode`. Defaults to
+   *                        `"none"`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`, also applied to
+   *                         the approval.
+   *
+   * @returns `PendingTransaction<Hex>` — the transaction hash once the
+   *          transaction is confirmed.
+   *
+   * @throws `NoSignerError` — If the escrow was created without a signer
+   * @throws `InsufficientBalanceError` | `InsufficientAllowanceError` — If the
+   *         wallet cannot pay the amount
+   * @throws `EscrowRevertError` — If the transaction reverts, e.g.
+   *         `InvalidCollateralError` for a token that is not enabled
+   */
+  deposit({
+    token,
+    amount,
+    approve = "none",
+    ...options
+  }: {
+    token: Address;
+    amount: Amount;
+    approve?: ApproveMode;
+  } & TransactionOptions): PendingTransaction<Hex> {
+    const raw = toRawAmount(amount);
+    return this.send(async (walletClient) => {
+      await new ERC20({
+        address: token,
+        publicClient: this.publicClient,
+        walletClient,
+        transactionOptions: this.transactionOptions,
+      }).ensureCanPay(
+        { spender: this.address, amount: raw, mode: approve },
+        options,
+      );
+      return { functionName: "addCollateral", args: [raw, token] };
+    }, options);
+  }
+
+  /**
+   * Withdraws collateral to the borrower or another address, as long as the
+   * remaining collateral keeps the line above its minimum collateral ratio.
+   *
+   * Wraps the Solidity call `releaseCollateral(uint256 amount, address token,
+   * address to)`. Only the borrower may call it.
+   *
+   * @param params.token   Collateral token.
+   * @param params.amount  Amount to withdraw **in smallest token units**, or
+   *                       as a `TokenAmount`.
+   * @param params.to      Optional recipient. Defaults to the wallet address
+   *                       used for signing.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<Hex>` — the transaction hash once the
+   *          transaction is confirmed.
+   *
+   * @throws `NoSignerError` — If the escrow was created without a signer
+   * @throws `EscrowRevertError` — If the transaction reverts, e.g.
+   *         `UnderCollateralizedError` or `EscrowCallerAccessDeniedError`
+   */
+  withdraw({
+    token,
+    amount,
+    to,
+    ...options
+  }: {
+    token: Address;
+    amount: Amount;
+    to?: Address;
+  } & TransactionOptions): PendingTransaction<Hex> {
+    return this.send(
+      async (walletClient) => ({
+        functionName: "releaseCollateral",
+        args: [toRawAmount(amount), token, to ?? walletClient.account.address],
+      }),
+      options,
+    );
+  }
+
+  /**
+   * Sends an escrow transaction built by `build` and resolves to its hash
+   * once mined. Gas is estimated up front so that a revert surfaces before
+   * anything is broadcast.
+   */
+  private send(
+    build: (
+      walletClient: SignerClient,
+    ) => Promise<ContractWriteCall<typeof EscrowABI>>,
+    options: TransactionOptions,
+  ): PendingTransaction<Hex> {
+    return submitContractWrite({
+      publicClient: this.publicClient,
+      address: this.address,
+      abi: EscrowABI,
+      prepare: async () => {
+        if (!this.walletClient) {
+          throw new NoSignerError();
+        }
+        const walletClient = this.walletClient;
+        return { walletClient, call: await build(walletClient) };
+      },
+      onMined: (receipt) => receipt.transactionHash,
+      options: { ...this.transactionOptions, ...options },
+    });
+  }
+}
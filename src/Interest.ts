@@ -0,0 +1,97 @@
+/**
+ * Offline reproduction of the line's interest math. Between accruals a
+ * position owes the drawn rate on its principal and the facility rate on its
+ * undrawn deposit, both simple interest in bps per year, so interest can be
+ * projected to any timestamp from one read of the position and its rates.
+ *
+ * @example
+ * ```ts
+ * const { positions } = await line.getLineState();
+ * const nextMonth = BigInt(Math.floor(Date.now() / 1000)) + 30n * 86_400n;
+ * const { interestAccrued } = projectInterest(positions[0], nextMonth);
+ * ```
+ */
+
+import { type CreditPosition } from "./LineState";
+
+/** Length of the year interest rates are quoted over, in seconds. */
+export const ONE_YEAR = 31_557_600n; // 365.25 days
+
+/** Denominator of rates expressed in bps. */
+export const BASE_DENOMINATOR = 10_000n;
+
+/**
+ * The fields of a position and its rates the interest math depends on.
+ */
+export type InterestInputs = Pick<
+  CreditPosition,
+  "deposit" | "principal" | "interestAccrued"
+> & {
+  /** Drawn rate in bps, charged on principal. */
+  dRate: bigint;
+  /** Facility rate in bps, charged on the undrawn deposit. */
+  fRate: bigint;
+  /** Timestamp interest was last accrued at. */
+  lastAccrued: bigint;
+};
+
+/**
+ * Interest of a position projected to a timestamp.
+ */
+export type InterestProjection = {
+  /** Timestamp projected to. */
+  timestamp: bigint;
+  /** Interest on principal since `lastAccrued`. */
+  drawnInterest: bigint;
+  /** Interest on the undrawn deposit since `lastAccrued`. */
+  facilityInterest: bigint;
+  /** Total interest owed at `timestamp`, including what already accrued. */
+  interestAccrued: bigint;
+};
+
+/**
+ * Simple interest owed on `balance` at `bpsRate` over `timespan` seconds,
+ * rounded down like the contract.
+ */
+export function calculateInterestOwed(
+  bpsRate: bigint,
+  balance: bigint,
+  timespan: bigint,
+): bigint {
+  return (bpsRate * balance * timespan) / (ONE_YEAR * BASE_DENOMINATOR);
+}
+
+/**
+ * Projects the interest a position will owe at `timestamp`, assuming its
+ * principal, deposit and rates do not change until then.
+ *
+ * @param position   The position's balances and rates, e.g. a
+ *                   `PositionSnapshot`.
+ * @param timestamp  Unix timestamp in seconds. Timestamps before
+ *                   `lastAccrued` project no new interest.
+ */
+export function projectInterest(
+  position: InterestInputs,
+  timestamp: bigint,
+): InterestProjection {
+  const timespan =
+    timestamp > position.lastAccrued ? timestamp - position.lastAccrued : 0n;
+  const drawnInterest = calculateInterestOwed(
+    position.dRate,
+    position.principal,
+    timespan,
+  );
+  const facilityInterest = calculateInterestOwed(
+    position.fRate,
+    position.deposit - position.principal,
+    timespan,
+  );
+
+  return {
+    timestamp,
+    drawnInterest,
+    facilityInterest,
+    interestAccrued:
+      position.interestAccrued + drawnInterest + facilityInterest,
+  };
+}
@@ -0,0 +1,458 @@
+/**
+ * Decoded event history of a line. Logs are fetched through `eth_getLogs` in
+ * block ranges small enough for hosted providers, decoded against the
+ * SecuredLine ABI and enriched with the timestamp of the block they were
+ * mined in. `watchLineEvents` streams the same events as new blocks arrive.
+ *
+ * @example
+ * ```ts
+ * const events = await getLineEvents(publicClient, lineAddress, {
+ *   fromBlock: 30_000_000n,
+ *   types: ["Borrow", "RepayPrincipal"],
+ * });
+ * for (const event of events) {
+ *   if (event.eventName === "Borrow") console.log(event.args.amount);
+ * }
+ * ```
+ */
+
+import {
+  type AbiEvent,
+  type Address,
+  type BlockNumber,
+  type BlockTag,
+  type ContractEventName,
+  type Hash,
+  type Log,
+  type PublicClient,
+  BaseError,
+  parseEventLogs,
+} from "viem";
+
+import SecuredLineABI from "./contracts/abis/SecuredLine";
+
+/**
+ * Name of an event declared in the SecuredLine ABI.
+ */
+export type LineEventType = ContractEventName<typeof SecuredLineABI>;
+
+/**
+ * A decoded line event, discriminated by `eventName`, with the timestamp of
+ * the block it was mined in.
+ */
+export type LineEvent<type extends LineEventType = LineEventType> = Log<
+  bigint,
+  number,
+  false,
+  undefined,
+  true,
+  typeof SecuredLineABI,
+  type
+> & {
+  /** Unix timestamp, in seconds, of the block the event was mined in. */
+  timestamp: bigint;
+};
+
+/**
+ * Filter passed to `getLineEvents`.
+ */
+export type LineEventFilter<type extends LineEventType = LineEventType> = {
+  /** First block to search, inclusive. */
+  fromBlock: BlockNumber;
+  /** Last block to search, inclusive. Defaults to `"latest"`. */
+  toBlock?: BlockNumber | BlockTag;
+  /** Event names to return. Defaults to every event of the line. */
+  types?: readonly type[];
+  /** Only return events about this position (`id` or `tokenId` argument). */
+  positionId?: bigint;
+  /**
+   * Number of blocks requested per `eth_getLogs` call. Halved automatically
+   * when the provider rejects a range as too large. Defaults to `10_000`.
+   */
+  chunkSize?: bigint;
+};
+
+const DEFAULT_CHUNK_SIZE = 10_000n;
+
+/**
+ * Most block headers requested at once when timestamping events, to stay
+ * under hosted providers' rate limits.
+ */
+const TIMESTAMP_CONCURRENCY = 8;
+
+/**
+ * Fetches and decodes the events a line emitted between two blocks, in the
+ * order they were mined.
+ *
+ * @param client   Public client connected to the line's chain.
+ * @param address  SecuredLine contract address.
+ * @param filter   Block range, event names and position to filter on.
+ *
+ * @returns `Promise<LineEvent[]>` — the decoded events with their block
+ *          timestamp and transaction hash.
+ */
+export async function getLineEvents<type extends LineEventType = LineEventType>(
+  client: PublicClient,
+  address: Address,
+  filter: LineEventFilter<type>,
+): Promise<LineEvent<type>[]> {
+  return readLineEvents(client, address, filter, new Map());
+}
+
+/**
+ * `getLineEvents` with a cache of block timestamps by block hash, which a
+ * watcher keeps across scans of the same blocks.
+ */
+async function readLineEvents<type extends LineEventType>(
+  client: PublicClient,
+  address: Address,
+  {
+    fromBlock,
+    toBlock = "latest",
+    types,
+    positionId,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+  }: LineEventFilter<type>,
+  timestamps: Map<Hash, bigint>,
+): Promise<LineEvent<type>[]> {
+  const eventNames: readonly LineEventType[] = types ?? lineEventTypes();
+  const events = SecuredLineABI.filter(
+    (item, index, abi): item is Extract<typeof item, AbiEvent> =>
+      item.type === "event" &&
+      eventNames.includes(item.name) &&
+      // The ABI declares some events twice.
+      abi.findIndex(
+        (other) => other.type === "event" && other.name === item.name,
+      ) === index,
+  );
+  const logs = await getLogsInChunks(client, {
+    address,
+    events,
+    fromBlock,
+    toBlock,
+    chunkSize,
+  });
+
+  const decoded = parseEventLogs({
+    abi: SecuredLineABI,
+    eventName: [...eventNames],
+    logs,
+    strict: true,
+  }).filter(
+    (log) =>
+      positionId === undefined ||
+      ("id" in log.args && log.args.id === positionId) ||
+      ("tokenId" in log.args && log.args.tokenId === positionId),
+  );
+
+  const missing = [
+    ...new Set(decoded.map(({ blockHash }) => blockHash)),
+  ].filter((blockHash) => !timestamps.has(blockHash));
+  for (let i = 0; i < missing.length; i += TIMESTAMP_CONCURRENCY) {
+    const blocks = await Promise.all(
+      missing.slice(i, i + TIMESTAMP_CONCURRENCY).map(async (blockHash) => {
+        const { timestamp } = await client.getBlock({ blockHash });
+        return [blockHash, timestamp] as const;
+      }),
+    );
+    for (const [blockHash, timestamp] of blocks) {
+      timestamps.set(blockHash, timestamp);
+    }
+  }
+
+  // `parseEventLogs` only returned events named in `types`.
+  return decoded.map((log) => {
+    const timestamp = timestamps.get(log.blockHash);
+    if (timestamp === undefined) {
+      throw new Error(`no timestamp read for block ${log.blockHash}`);
+    }
+    return Object.assign(log, { timestamp });
+  }) as LineEvent<type>[];
+}
+
+/**
+ * Requests the logs of `events` emitted by `address` between two blocks, in
+ * chunks of `chunkSize` blocks. The chunk is halved whenever the provider
+ * rejects a range as too large.
+ */
+export async function getLogsInChunks(
+  client: PublicClient,
+  {
+    address,
+    events,
+    fromBlock,
+    toBlock = "latest",
+    chunkSize = DEFAULT_CHUNK_SIZE,
+  }: {
+    address: Address;
+    events: readonly AbiEvent[];
+    fromBlock: BlockNumber;
+    toBlock?: BlockNumber | BlockTag;
+    chunkSize?: bigint;
+  },
+): Promise<Log[]> {
+  const lastBlock =
+    typeof toBlock === "bigint"
+      ? toBlock
+      : (await client.getBlock({ blockTag: toBlock })).number;
+
+  const logs: Log[] = [];
+  if (lastBlock === null || events.length === 0) {
+    return logs;
+  }
+
+  let start = fromBlock;
+  let size = chunkSize;
+  while (start <= lastBlock) {
+    const end = start + size - 1n < lastBlock ? start + size - 1n : lastBlock;
+    try {
+      logs.push(
+        ...(await client.getLogs({
+          address,
+          events,
+          fromBlock: start,
+          toBlock: end,
+          strict: true,
+        })),
+      );
+      start = end + 1n;
+    } catch (error) {
+      if (size === 1n || !isRangeLimitError(error)) {
+        throw error;
+      }
+      size /= 2n;
+    }
+  }
+  return logs;
+}
+
+/**
+ * Position of an event in the chain. Persist the cursor of the last handled
+ * event to resume a watcher from it after a restart.
+ */
+export type WatchCursor = {
+  blockNumber: bigint;
+  logIndex: number;
+};
+
+/**
+ * Callbacks of `watchLineEvents`, one per event name to watch. Each is called
+ * with the event and its cursor once the event has enough confirmations.
+ */
+export type LineEventHandlers = {
+  [type in LineEventType]?: (
+    event: LineEvent<type>,
+    cursor: WatchCursor,
+  ) => void | Promise<void>;
+};
+
+/**
+ * Options of `watchLineEvents`.
+ */
+export type WatchOptions = {
+  /**
+   * Blocks an event must be buried under before it is delivered, counting
+   * the block it was mined in. Defaults to `1`.
+   */
+  confirmations?: number;
+  /**
+   * Cursor of the last event handled before a restart. Events at or before
+   * it are skipped. Defaults to watching from the current block.
+   */
+  cursor?: WatchCursor;
+  /**
+   * Number of recent blocks re-checked on every new block to detect reorgs.
+   * Defaults to `64`.
+   */
+  reorgWindow?: number;
+  /**
+   * Called with an already delivered event, flagged `removed: true`, when a
+   * reorg drops it from the chain.
+   */
+  onRemoved?: (event: LineEvent) => void | Promise<void>;
+  /**
+   * Called when fetching logs or a handler fails. Errors are dropped when
+   * omitted. An event whose handler failed is retried on the next block,
+   * before any later event.
+   */
+  onError?: (error: unknown) => void;
+  /**
+   * Poll for new blocks even when the client uses a WebSocket transport,
+   * which otherwise subscribes to new heads.
+   */
+  poll?: boolean;
+  /** Polling interval in milliseconds. Defaults to the client's. */
+  pollingInterval?: number;
+};
+
+/**
+ * Streams decoded line events to `handlers` as blocks are mined.
+ *
+ * On every new block the last `reorgWindow` blocks are fetched again: events
+ * that are no longer in the chain are reported through `onRemoved`, and
+ * events that reached `confirmations` are delivered in chain order.
+ *
+ * @param client    Public client connected to the line's chain.
+ * @param address   SecuredLine contract address.
+ * @param handlers  Callback per event name to watch.
+ * @param options   Confirmations, resume cursor and reorg handling.
+ *
+ * @returns A function that stops watching.
+ */
+export function watchLineEvents(
+  client: PublicClient,
+  address: Address,
+  handlers: LineEventHandlers,
+  {
+    confirmations = 1,
+    cursor,
+    reorgWindow = 64,
+    onRemoved,
+    onError,
+    poll,
+    pollingInterval,
+  }: WatchOptions = {},
+): () => void {
+  const types = Object.keys(handlers) as LineEventType[];
+  const delivered = new Map<string, LineEvent>();
+  const timestamps = new Map<Hash, bigint>();
+  let firstBlock = cursor?.blockNumber;
+  let scannedTo: bigint | undefined;
+  let running: Promise<void> | undefined;
+  let latest: bigint | undefined;
+  let stopped = false;
+
+  const scan = async (head: bigint) => {
+    const safeHead = head - BigInt(Math.max(confirmations, 1) - 1);
+    firstBlock ??= safeHead;
+    const nextBlock = scannedTo === undefined ? firstBlock : scannedTo + 1n;
+    const windowStart = safeHead - BigInt(reorgWindow) + 1n;
+    const fromBlock = max(firstBlock, min(nextBlock, windowStart));
+    if (fromBlock > safeHead) {
+      return;
+    }
+
+    const events = await readLineEvents(
+      client,
+      address,
+      { fromBlock, toBlock: safeHead, types },
+      timestamps,
+    );
+    const seen = new Set(events.map(eventKey));
+    const blockHashes = new Set(events.map(({ blockHash }) => blockHash));
+    for (const blockHash of timestamps.keys()) {
+      if (!blockHashes.has(blockHash)) {
+        timestamps.delete(blockHash);
+      }
+    }
+
+    for (const [key, event] of delivered) {
+      if (event.blockNumber < fromBlock) {
+        delivered.delete(key);
+      } else if (event.blockNumber <= safeHead && !seen.has(key)) {
+        delivered.delete(key);
+        await onRemoved?.({ ...event, removed: true });
+      }
+    }
+
+    for (const event of events) {
+      const key = eventKey(event);
+      if (stopped || delivered.has(key) || isAtOrBefore(event, cursor)) {
+        continue;
+      }
+      const handle = handlers[event.eventName] as
+        | ((event: LineEvent, cursor: WatchCursor) => void | Promise<void>)
+        | undefined;
+      // A throwing handler ends the scan before the event is recorded, so it
+      // is delivered again, ahead of every later event, on the next block.
+      await handle?.(event, {
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+      });
+      delivered.set(key, event);
+    }
+
+    scannedTo = safeHead;
+  };
+
+  // Scans never overlap: blocks announced while a scan runs are folded into
+  // one follow-up scan up to the latest of them.
+  const onBlockNumber = (blockNumber: bigint) => {
+    latest = blockNumber;
+    running ??= (async () => {
+      while (latest !== undefined && !stopped) {
+        const head = latest;
+        latest = undefined;
+        try {
+          await scan(head);
+        } catch (error) {
+          onError?.(error);
+        }
+      }
+      running = undefined;
+    })();
+  };
+
+  const unwatch = client.watchBlockNumber({
+    emitOnBegin: true,
+    onBlockNumber,
+    onError,
+    poll: poll || undefined,
+    pollingInterval,
+  });
+
+  return () => {
+    stopped = true;
+    unwatch();
+  };
+}
+
+/**
+ * Every event name declared in the SecuredLine ABI.
+ */
+function lineEventTypes(): LineEventType[] {
+  return SecuredLineABI.flatMap((item) =>
+    item.type === "event" ? [item.name] : [],
+  );
+}
+
+/**
+ * Whether a provider rejected `eth_getLogs` because the block range or the
+ * result set was too large. Rate limits do not match: halving the range
+ * would only send more requests to a provider that is already throttling.
+ */
+function isRangeLimitError(error: unknown): boolean {
+  const message =
+    error instanceof BaseError
+      ? error.details || error.shortMessage
+      : error instanceof Error
+        ? error.message
+        : "";
+  return /block range|limited to a [\d,]+ range|query returned more than|response size|too many (blocks|logs|results)/i.test(
+    message,
+  );
+}
+
+function eventKey(event: LineEvent): string {
+  return `${event.blockHash}:${event.logIndex}`;
+}
+
+function isAtOrBefore(
+  event: LineEvent,
+  cursor: WatchCursor | undefined,
+): boolean {
+  return (
+    cursor !== undefined &&
+    (event.blockNumber < cursor.blockNumber ||
+      (event.blockNumber === cursor.blockNumber &&
+        event.logIndex <= cursor.logIndex))
+  );
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
@@ -0,0 +1,110 @@
+/**
+ * Status and health monitoring of a line. `healthcheck()` is the state-
+ * changing call that moves a line to `Liquidatable` once a position is past
+ * its deadline; simulating it with `eth_call` predicts that transition
+ * without sending anything.
+ *
+ * @example
+ * ```ts
+ * const health = await checkLineHealth(publicClient, lineAddress);
+ * if (health.willBeLiquidatable) alert(`line ${lineAddress} is due`);
+ * ```
+ */
+
+import { type Address, type PublicClient } from "viem";
+
+import SecuredLineABI from "./contracts/abis/SecuredLine";
+import { toLineError } from "./errors";
+import { type LineSnapshot, LineStatus } from "./LineState";
+
+/**
+ * Current and predicted status of a line, as returned by `checkLineHealth`.
+ */
+export type LineHealth = {
+  /** Block both statuses were read at. */
+  blockNumber: bigint;
+  /** Status stored on the line. */
+  status: LineStatus;
+  /** Status `healthcheck()` would set if sent now. */
+  predicted: LineStatus;
+  /** Whether `healthcheck()` would move an active line to `Liquidatable`. */
+  willBeLiquidatable: boolean;
+};
+
+/**
+ * Time left until the deadline of an open position.
+ */
+export type PositionDeadline = {
+  id: bigint;
+  /** Unix timestamp, in seconds, the position becomes due at. */
+  deadline: bigint;
+  /** Seconds until `deadline`, negative once it has passed. */
+  secondsRemaining: bigint;
+  /** Whether the deadline has passed. */
+  isPastDeadline: boolean;
+};
+
+/**
+ * Reads a line's status and simulates `healthcheck()` at the latest block.
+ *
+ * @param client          Public client connected to the line's chain.
+ * @param address         SecuredLine contract address.
+ * @param params.account  Sender of the simulated call. Defaults to none.
+ *
+ * @returns `Promise<LineHealth>` — the stored and predicted status.
+ *
+ * @throws `LineRevertError` — If `healthcheck()` would revert
+ */
+export async function checkLineHealth(
+  client: PublicClient,
+  address: Address,
+  { account }: { account?: Address } = {},
+): Promise<LineHealth> {
+  const blockNumber = await client.getBlockNumber();
+  const line = { address, abi: SecuredLineABI } as const;
+
+  const [status, { result: predicted }] = await Promise.all([
+    client.readContract({ ...line, functionName: "status", blockNumber }),
+    client
+      .simulateContract({
+        ...line,
+        functionName: "healthcheck",
+        blockNumber,
+        ...(account && { account }),
+      })
+      .catch((error: unknown) => {
+        throw toLineError(error);
+      }),
+  ]);
+
+  return {
+    blockNumber,
+    status: status as LineStatus,
+    predicted: predicted as LineStatus,
+    willBeLiquidatable:
+      status === LineStatus.Active && predicted === LineStatus.Liquidatable,
+  };
+}
+
+/**
+ * Lists the time left until the deadline of every open position of a
+ * snapshot, soonest first.
+ *
+ * @param snapshot   Line state, e.g. from `readLineState`.
+ * @param timestamp  Unix timestamp, in seconds, to measure from.
+ */
+export function getPositionDeadlines(
+  snapshot: LineSnapshot,
+  timestamp: bigint,
+): PositionDeadline[] {
+  return snapshot.positions
+    .map(({ id, deadline }) => ({
+      id,
+      deadline,
+      secondsRemaining: deadline - timestamp,
+      isPastDeadline: deadline <= timestamp,
+    }))
+    .sort((a, b) =>
+      a.deadline < b.deadline ? -1 : a.deadline > b.deadline ? 1 : 0,
+    );
+}
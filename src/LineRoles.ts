@@ -0,0 +1,287 @@
+/**
+ * Roles an address holds on a line, and which roles each write method of the
+ * SDK is restricted to. The line enforces these with `CallerAccessDenied` and
+ * `Unauthorized` reverts; checking them first tells a caller which role its
+ * key is missing instead.
+ *
+ * @example
+ * ```ts
+ * const roles = await readLineRoles(publicClient, lineAddress, account);
+ * if (!canCall(roles, "borrow")) console.warn(`${account} cannot borrow`);
+ * ```
+ */
+
+import {
+  type Address,
+  type PublicClient,
+  BaseError,
+  ContractFunctionRevertedError,
+  erc721Abi,
+  isAddressEqual,
+} from "viem";
+
+import SecuredLineABI from "./contracts/abis/SecuredLine";
+import { MULTICALL3_ADDRESS } from "./LineState";
+
+/**
+ * A role an address can hold on a line.
+ */
+export type LineRole =
+  | "borrower"
+  | "admin"
+  | "servicer"
+  | "otcSwapServicer"
+  | "lender";
+
+/**
+ * Roles held by an address on a line, as returned by `readLineRoles`.
+ */
+export type LineRoles = {
+  address: Address;
+  /** Block the roles were read at. */
+  blockNumber: bigint;
+  borrower: boolean;
+  admin: boolean;
+  servicer: boolean;
+  otcSwapServicer: boolean;
+  /**
+   * Whether the address holds the credit position token of an open
+   * position, or of the position the roles were read for.
+   */
+  lender: boolean;
+  /** Open positions whose credit position token the address holds. */
+  positionIds: bigint[];
+};
+
+/**
+ * Roles allowed to call each write method of `SecuredLine` and
+ * `SecuredLineAdmin`. `"anyone"` marks methods the line does not restrict:
+ * anyone may repay on the borrower's behalf, and proposals come from lenders
+ * who hold no position yet.
+ */
+export const LINE_PERMISSIONS = {
+  borrow: ["borrower", "servicer"],
+  repay: "anyone",
+  repayFromReserves: ["borrower", "servicer"],
+  repayAndClose: ["borrower", "servicer"],
+  closePosition: ["borrower", "servicer", "lender"],
+  withdraw: ["lender"],
+  claimEarlyWithdrawalFees: ["lender"],
+  submitProposal: "anyone",
+  acceptProposal: "anyone",
+  revokeProposal: "anyone",
+  incrementNonce: ["borrower", "admin", "servicer"],
+  clearProposals: ["borrower", "admin", "servicer"],
+  claimAndRepay: ["borrower", "admin", "servicer"],
+  claimAndTrade: ["borrower", "admin", "servicer"],
+  updateAdmin: ["admin", "servicer"],
+  updateBorrower: ["admin", "servicer", "borrower"],
+  setServicer: ["admin", "servicer"],
+  setFees: ["admin", "servicer"],
+  setOtcSwapServicer: ["admin", "servicer"],
+  updateAllowedOTCPriceImpact: ["admin", "servicer"],
+  activateLine: ["admin", "servicer"],
+} as const satisfies Record<string, readonly LineRole[] | "anyone">;
+
+/**
+ * A write method of `SecuredLine` or `SecuredLineAdmin`.
+ */
+export type LineAction = keyof typeof LINE_PERMISSIONS;
+
+/**
+ * Reads the roles `account` holds on a line, pinned to the latest block.
+ *
+ * Actions on one position, such as `withdraw`, are only open to the holder
+ * of that position's token. Given `positionId`, `lender` tells whether
+ * `account` holds it, whether or not the position is still open.
+ *
+ * @param client      Public client connected to the line's chain.
+ * @param address     SecuredLine contract address.
+ * @param account     Address to read the roles of.
+ * @param positionId  Position to read the lender role for. Defaults to any
+ *                    open position.
+ *
+ * @returns `Promise<LineRoles>` — every role and the positions lent from.
+ */
+export async function readLineRoles(
+  client: PublicClient,
+  address: Address,
+  account: Address,
+  positionId?: bigint,
+): Promise<LineRoles> {
+  const line = { address, abi: SecuredLineABI } as const;
+  const options = {
+    allowFailure: false,
+    blockNumber: await client.getBlockNumber(),
+    multicallAddress:
+      client.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS,
+  } as const;
+
+  const [[count], borrower, admin, otcSwapServicer, servicer, tokenContract] =
+    await client.multicall({
+      ...options,
+      contracts: [
+        { ...line, functionName: "counts" },
+        { ...line, functionName: "borrower" },
+        { ...line, functionName: "admin" },
+        { ...line, functionName: "otcSwapServicer" },
+        { ...line, functionName: "isServicer", args: [account] },
+        { ...line, functionName: "tokenContract" },
+      ],
+    });
+
+  const ids = await client.multicall({
+    ...options,
+    contracts: Array.from(
+      { length: Number(count) },
+      (_, i) => ({ ...line, functionName: "ids", args: [BigInt(i)] }) as const,
+    ),
+  });
+
+  const owners = await client.multicall({
+    ...options,
+    contracts: ids.map(
+      (id) =>
+        ({
+          address: tokenContract,
+          abi: erc721Abi,
+          functionName: "ownerOf",
+          args: [id],
+        }) as const,
+    ),
+  });
+
+  const positionIds = ids.filter((_, i) => isAddressEqual(owners[i]!, account));
+  const lender =
+    positionId === undefined
+      ? positionIds.length > 0
+      : await readPositionOwner(
+          client,
+          tokenContract,
+          positionId,
+          options.blockNumber,
+        ).then(
+          (owner) => owner !== undefined && isAddressEqual(owner, account),
+        );
+
+  return {
+    address: account,
+    blockNumber: options.blockNumber,
+    borrower: isAddressEqual(borrower, account),
+    admin: isAddressEqual(admin, account),
+    servicer,
+    otcSwapServicer: isAddressEqual(otcSwapServicer, account),
+    lender,
+    positionIds,
+  };
+}
+
+/**
+ * Checks whether `account` holds any of `roles` on a line, at the latest
+ * block. Unlike `readLineRoles`, only the roles asked for are read, and the
+ * lender role of one position is read from that position's token alone.
+ *
+ * @param client      Public client connected to the line's chain.
+ * @param address     SecuredLine contract address.
+ * @param account     Address to check.
+ * @param roles       Roles that would be enough, e.g. the allowed roles of
+ *                    an action.
+ * @param positionId  Position to check the lender role for. Defaults to any
+ *                    open position.
+ *
+ * @returns `Promise<boolean>` — whether `account` holds one of `roles`.
+ */
+export async function hasLineRole(
+  client: PublicClient,
+  address: Address,
+  account: Address,
+  roles: readonly LineRole[],
+  positionId?: bigint,
+): Promise<boolean> {
+  const line = { address, abi: SecuredLineABI } as const;
+  const holderRoles = (
+    ["borrower", "admin", "otcSwapServicer"] as const
+  ).filter((role) => roles.includes(role));
+
+  const [holders, servicer, lender] = await Promise.all([
+    holderRoles.length === 0
+      ? []
+      : client.multicall({
+          allowFailure: false,
+          multicallAddress:
+            client.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS,
+          contracts: holderRoles.map(
+            (functionName) => ({ ...line, functionName }) as const,
+          ),
+        }),
+    roles.includes("servicer") &&
+      client.readContract({
+        ...line,
+        functionName: "isServicer",
+        args: [account],
+      }),
+    roles.includes("lender") &&
+      (positionId === undefined
+        ? readLineRoles(client, address, account).then(({ lender }) => lender)
+        : client
+            .readContract({ ...line, functionName: "tokenContract" })
+            .then((tokenContract) =>
+              readPositionOwner(client, tokenContract, positionId),
+            )
+            .then(
+              (owner) => owner !== undefined && isAddressEqual(owner, account),
+            )),
+  ]);
+
+  return (
+    servicer ||
+    lender ||
+    holders.some((holder) => isAddressEqual(holder, account))
+  );
+}
+
+/**
+ * Reads the holder of a credit position token, or `undefined` if no token
+ * was minted for `positionId`.
+ */
+async function readPositionOwner(
+  client: PublicClient,
+  tokenContract: Address,
+  positionId: bigint,
+  blockNumber?: bigint,
+): Promise<Address | undefined> {
+  try {
+    return await client.readContract({
+      address: tokenContract,
+      abi: erc721Abi,
+      functionName: "ownerOf",
+      args: [positionId],
+      blockNumber,
+    });
+  } catch (error) {
+    if (
+      error instanceof BaseError &&
+      error.walk((cause) => cause instanceof ContractFunctionRevertedError)
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the roles allowed to call `action`, or `"anyone"`.
+ */
+export function getAllowedRoles(
+  action: LineAction,
+): readonly LineRole[] | "anyone" {
+  return LINE_PERMISSIONS[action];
+}
+
+/**
+ * Checks whether an address with `roles` may call `action`.
+ */
+export function canCall(roles: LineRoles, action: LineAction): boolean {
+  const allowed = getAllowedRoles(action);
+  return allowed === "anyone" || allowed.some((role) => roles[role]);
+}
@@ -0,0 +1,306 @@
+/**
+ * Dry runs of line writes. A write is executed against the latest block
+ * without being broadcast, reporting whether it would revert, the gas it
+ * would use and how it would change open positions and the sender's token
+ * balances.
+ *
+ * Position and balance deltas need a node that supports `eth_simulateV1`.
+ * Other nodes fall back to `eth_estimateGas` and leave `deltas` undefined;
+ * a write that needs an approval first cannot be simulated there, and one
+ * that reverts without it is reported as inconclusive.
+ */
+
+import {
+  type Address,
+  type PublicClient,
+  BaseError,
+  ContractFunctionRevertedError,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  encodeFunctionData,
+  erc20Abi,
+  decodeFunctionResult,
+} from "viem";
+
+import SecuredLineABI from "./contracts/abis/SecuredLine";
+import { toLineError } from "./errors";
+import {
+  type CreditPosition,
+  MULTICALL3_ADDRESS,
+  readLineState,
+} from "./LineState";
+import { type ContractWriteCall } from "./transactions";
+
+/**
+ * A state-changing line function together with its arguments.
+ */
+export type LineWriteCall = ContractWriteCall<typeof SecuredLineABI>;
+
+/**
+ * An ERC-20 approval that must be mined before a write can succeed.
+ */
+export type TokenApproval = {
+  token: Address;
+  spender: Address;
+  amount: bigint;
+};
+
+/**
+ * Predicted change of an open position, in smallest token units.
+ */
+export type PositionDelta = {
+  id: bigint;
+  deposit: bigint;
+  principal: bigint;
+  interestAccrued: bigint;
+  interestRepaid: bigint;
+};
+
+/**
+ * Predicted change of the sender's balance of a credit token, in smallest
+ * token units.
+ */
+export type BalanceDelta = {
+  token: Address;
+  amount: bigint;
+};
+
+/**
+ * Outcome of a simulated line write.
+ */
+export type SimulationResult = LineWriteCall & {
+  /**
+   * Whether the write would succeed. `undefined` when the node does not
+   * support `eth_simulateV1` and the write reverts without the approvals it
+   * needs, so the outcome cannot be told.
+   */
+  success: boolean | undefined;
+  /**
+   * Why the write would fail, or the revert seen without its approvals when
+   * inconclusive: a `LineRevertError` subclass such as `NoLiquidityError`
+   * for reverts declared in the line ABI, otherwise the underlying viem
+   * error.
+   */
+  error: unknown;
+  /** Gas the write would use, if it would succeed. */
+  gas: bigint | undefined;
+  /** Approvals sent before the write, simulated ahead of it. */
+  approvals: TokenApproval[];
+  /**
+   * Changes to open positions and to the sender's credit token balances.
+   * Only entries that change are listed. `undefined` if the node does not
+   * support `eth_simulateV1` or the write would fail.
+   */
+  deltas: { positions: PositionDelta[]; balances: BalanceDelta[] } | undefined;
+};
+
+/**
+ * Simulates `call` sent by `account` to the line at `address`, preceded by
+ * `approvals`.
+ *
+ * @throws If the node cannot be reached. Reverts are returned in `error`.
+ */
+export async function simulateLineWrite(
+  client: PublicClient,
+  {
+    address,
+    account,
+    call,
+    approvals = [],
+  }: {
+    address: Address;
+    account: Address;
+    call: LineWriteCall;
+    approvals?: TokenApproval[];
+  },
+): Promise<SimulationResult> {
+  const before = await readLineState(client, address);
+  const positions = before.positions;
+  const tokens = [...new Set(positions.map(({ token }) => token))];
+  const balancesBefore = await client.multicall({
+    allowFailure: false,
+    blockNumber: before.blockNumber,
+    multicallAddress:
+      client.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS,
+    contracts: tokens.map(
+      (token) =>
+        ({
+          address: token,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [account],
+        }) as const,
+    ),
+  });
+
+  let simulated;
+  try {
+    [simulated] = await client.simulateBlocks({
+      blockNumber: before.blockNumber,
+      blocks: [
+        {
+          calls: [
+            ...approvals.map(({ token, spender, amount }) => ({
+              account,
+              to: token,
+              data: encodeFunctionData({
+                abi: erc20Abi,
+                functionName: "approve",
+                args: [spender, amount],
+              }),
+            })),
+            {
+              account,
+              to: address,
+              abi: SecuredLineABI,
+              functionName: call.functionName,
+              args: call.args,
+            },
+            ...positions.map(({ id }) => ({
+              to: address,
+              data: encodeFunctionData({
+                abi: SecuredLineABI,
+                functionName: "getCreditPosition",
+                args: [id],
+              }),
+            })),
+            ...tokens.map((token) => ({
+              to: token,
+              data: encodeFunctionData({
+                abi: erc20Abi,
+                functionName: "balanceOf",
+                args: [account],
+              }),
+            })),
+          ],
+        },
+      ],
+    });
+  } catch (error) {
+    if (
+      !(error instanceof MethodNotFoundRpcError) &&
+      !(error instanceof MethodNotSupportedRpcError)
+    ) {
+      throw error;
+    }
+    return callLineWrite(client, { address, account, call, approvals });
+  }
+
+  const results = simulated!.calls;
+  const write = results[approvals.length]!;
+  if (write.status === "failure") {
+    return {
+      ...call,
+      success: false,
+      error: toLineError(write.error),
+      gas: undefined,
+      approvals,
+      deltas: undefined,
+    };
+  }
+
+  const after = results.slice(approvals.length + 1);
+  return {
+    ...call,
+    success: true,
+    error: undefined,
+    gas: write.gasUsed,
+    approvals,
+    deltas: {
+      positions: positions
+        .map((position, i) => {
+          const next = decodeFunctionResult({
+            abi: SecuredLineABI,
+            functionName: "getCreditPosition",
+            data: after[i]!.data,
+          });
+          return positionDelta(position.id, position, next);
+        })
+        .filter(
+          (delta) =>
+            delta.deposit ||
+            delta.principal ||
+            delta.interestAccrued ||
+            delta.interestRepaid,
+        ),
+      balances: tokens
+        .map((token, i) => ({
+          token,
+          amount:
+            decodeFunctionResult({
+              abi: erc20Abi,
+              functionName: "balanceOf",
+              data: after[positions.length + i]!.data,
+            }) - balancesBefore[i]!,
+        }))
+        .filter(({ amount }) => amount !== 0n),
+    },
+  };
+}
+
+/**
+ * Simulates a write through `eth_estimateGas`, for nodes without
+ * `eth_simulateV1`. Approvals cannot be simulated ahead of the write this
+ * way, so a revert of a write that needs one is inconclusive.
+ */
+async function callLineWrite(
+  client: PublicClient,
+  {
+    address,
+    account,
+    call,
+    approvals,
+  }: {
+    address: Address;
+    account: Address;
+    call: LineWriteCall;
+    approvals: TokenApproval[];
+  },
+): Promise<SimulationResult> {
+  try {
+    const gas = await client.estimateContractGas({
+      address,
+      account,
+      abi: SecuredLineABI,
+      functionName: call.functionName,
+      args: call.args,
+    });
+    return {
+      ...call,
+      success: true,
+      error: undefined,
+      gas,
+      approvals,
+      deltas: undefined,
+    };
+  } catch (error) {
+    const reverted =
+      error instanceof BaseError &&
+      error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+    if (!reverted) {
+      throw error;
+    }
+    return {
+      ...call,
+      success: approvals.length > 0 ? undefined : false,
+      error: toLineError(error),
+      gas: undefined,
+      approvals,
+      deltas: undefined,
+    };
+  }
+}
+
+function positionDelta(
+  id: bigint,
+  before: CreditPosition,
+  after: CreditPosition,
+): PositionDelta {
+  return {
+    id,
+    deposit: after.deposit - before.deposit,
+    principal: after.principal - before.principal,
+    interestAccrued: after.interestAccrued - before.interestAccrued,
+    interestRepaid: after.interestRepaid - before.interestRepaid,
+  };
+}
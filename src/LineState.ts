@@ -0,0 +1,203 @@
+/**
+ * Consistent, batched reads of a line's full state. All calls are aggregated
+ * through Multicall3 and pinned to a single block so the snapshot never mixes
+ * values from different blocks.
+ *
+ * @example
+ * ```ts
+ * const snapshot = await readLineState(publicClient, lineAddress);
+ * console.log(LineStatus[snapshot.status], snapshot.positions.length);
+ * ```
+ */
+
+import {
+  type Address,
+  type ContractFunctionReturnType,
+  type PublicClient,
+} from "viem";
+
+import { type BlockOptions } from "./blocks";
+import SecuredLineABI from "./contracts/abis/SecuredLine";
+import { type PositionRates, toPositionRates } from "./rates";
+
+/**
+ * Canonical Multicall3 deployment, used when the client's chain does not
+ * declare one (e.g. local forks).
+ */
+export const MULTICALL3_ADDRESS: Address =
+  "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/**
+ * Lifecycle status of a line, as returned by `status()`.
+ */
+export enum LineStatus {
+  Uninitialized = 0,
+  Active = 1,
+  Liquidatable = 2,
+  Repaid = 3,
+  Insolvent = 4,
+  Aborted = 5,
+}
+
+/**
+ * Credit position as returned by `getCreditPosition(uint256)`.
+ */
+export type CreditPosition = ContractFunctionReturnType<
+  typeof SecuredLineABI,
+  "view",
+  "getCreditPosition"
+>;
+
+/**
+ * Fees configured on a line, in bps.
+ */
+export type LineFees = ContractFunctionReturnType<
+  typeof SecuredLineABI,
+  "view",
+  "getFees"
+>;
+
+/**
+ * An open credit position together with its rates and liquidity.
+ */
+export type PositionSnapshot = CreditPosition & {
+  /** Position identifier on the line. */
+  id: bigint;
+  /** Drawn rate in bps, charged on principal. */
+  dRate: bigint;
+  /** Facility rate in bps, charged on the undrawn deposit. */
+  fRate: bigint;
+  /** `dRate` and `fRate` in bps, APR and APY. */
+  rates: PositionRates;
+  /** Timestamp interest was last accrued at. */
+  lastAccrued: bigint;
+  /** Assets available for borrowing or withdrawal. */
+  availableAssets: bigint;
+  /** Interest the lender can claim. */
+  claimableInterest: bigint;
+};
+
+/**
+ * Full state of a line at `blockNumber`.
+ */
+export type LineSnapshot = {
+  /** Block every value was read at. */
+  blockNumber: bigint;
+  status: LineStatus;
+  borrower: Address;
+  admin: Address;
+  otcSwapServicer: Address;
+  fees: LineFees;
+  /** Open positions in repayment queue order. */
+  positions: PositionSnapshot[];
+};
+
+/**
+ * Reads the full state of a line through Multicall3: the line's fields and
+ * position count, then the position ids, then the credit data, liquidity
+ * and rates of every position, all pinned to the same block.
+ *
+ * @param client              Public client connected to the line's chain.
+ * @param address             SecuredLine contract address.
+ * @param at                  Block to read at. A `blockTag` is resolved to its
+ *                            block number first. Defaults to the latest block.
+ *
+ * @returns `Promise<LineSnapshot>` — the line state at a single block.
+ */
+export async function readLineState(
+  client: PublicClient,
+  address: Address,
+  at: BlockOptions = {},
+): Promise<LineSnapshot> {
+  const line = { address, abi: SecuredLineABI } as const;
+  const options = {
+    allowFailure: false,
+    blockNumber: await resolveBlockNumber(client, at),
+    multicallAddress:
+      client.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS,
+  } as const;
+
+  const [[count], status, borrower, admin, otcSwapServicer, fees] =
+    await client.multicall({
+      ...options,
+      contracts: [
+        { ...line, functionName: "counts" },
+        { ...line, functionName: "status" },
+        { ...line, functionName: "borrower" },
+        { ...line, functionName: "admin" },
+        { ...line, functionName: "otcSwapServicer" },
+        { ...line, functionName: "getFees" },
+      ],
+    });
+
+  const ids = await client.multicall({
+    ...options,
+    contracts: Array.from(
+      { length: Number(count) },
+      (_, i) => ({ ...line, functionName: "ids", args: [BigInt(i)] }) as const,
+    ),
+  });
+
+  const [positions, available, rates] = await Promise.all([
+    client.multicall({
+      ...options,
+      contracts: ids.map(
+        (id) =>
+          ({ ...line, functionName: "getCreditPosition", args: [id] }) as const,
+      ),
+    }),
+    client.multicall({
+      ...options,
+      contracts: ids.map(
+        (id) => ({ ...line, functionName: "available", args: [id] }) as const,
+      ),
+    }),
+    client.multicall({
+      ...options,
+      contracts: ids.map(
+        (id) => ({ ...line, functionName: "rates", args: [id] }) as const,
+      ),
+    }),
+  ]);
+
+  return {
+    blockNumber: options.blockNumber,
+    status: status as LineStatus,
+    borrower,
+    admin,
+    otcSwapServicer,
+    fees,
+    positions: ids.map((id, i) => {
+      const [availableAssets, claimableInterest] = available[i]!;
+      const [dRate, fRate, lastAccrued] = rates[i]!;
+      return {
+        ...positions[i]!,
+        id,
+        dRate,
+        fRate,
+        rates: toPositionRates({ dRate, fRate }),
+        lastAccrued,
+        availableAssets,
+        claimableInterest,
+      };
+    }),
+  };
+}
+
+/**
+ * Pins a read to a block number, so that several rounds of calls observe the
+ * same state even when `at` is a moving tag such as `"latest"`.
+ */
+async function resolveBlockNumber(
+  client: PublicClient,
+  { blockNumber, blockTag }: BlockOptions,
+): Promise<bigint> {
+  if (blockNumber !== undefined) {
+    return blockNumber;
+  }
+  if (blockTag === undefined || blockTag === "latest") {
+    return client.getBlockNumber();
+  }
+  const { number } = await client.getBlock({ blockTag });
+  return number ?? client.getBlockNumber();
+}
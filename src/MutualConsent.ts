@@ -0,0 +1,158 @@
+/**
+ * Helpers for the line's mutual-consent functions (`addCredit` and
+ * `refinanceCredit`). Both parties must submit byte-for-byte identical
+ * calldata: the first submission registers a proposal, the second one from
+ * the counterparty accepts and executes it.
+ *
+ * @example
+ * ```ts
+ * const proposal = encodeAddCreditProposal({ nonce, dRate, fRate, ... });
+ * const proposalId = computeProposalId(proposal, lenderAddress);
+ * ```
+ */
+
+import {
+  type Address,
+  type ContractFunctionArgs,
+  type Hex,
+  encodeFunctionData,
+  encodePacked,
+  keccak256,
+} from "viem";
+
+import SecuredLineABI from "./contracts/abis/SecuredLine";
+
+/**
+ * A mutual-consent call ready to be submitted by either party. `data` is the
+ * exact calldata both parties must send.
+ */
+export type CreditProposal =
+  | {
+      functionName: "addCredit";
+      args: ContractFunctionArgs<
+        typeof SecuredLineABI,
+        "nonpayable",
+        "addCredit"
+      >;
+      data: Hex;
+    }
+  | {
+      functionName: "refinanceCredit";
+      args: ContractFunctionArgs<
+        typeof SecuredLineABI,
+        "nonpayable",
+        "refinanceCredit"
+      >;
+      data: Hex;
+    };
+
+/**
+ * Terms of a new credit position opened through `addCredit`.
+ */
+export type AddCreditTerms = {
+  /** Drawn rate, charged on principal. */
+  dRate: bigint;
+  /** Facility rate, charged on the undrawn deposit. */
+  fRate: bigint;
+  /** Deposit **in smallest token units**. */
+  amount: bigint;
+  /** Credit token address. */
+  token: Address;
+  /** Lender that will own the position. */
+  lender: Address;
+  /** Whether the credit position token is non-transferable. */
+  isRestricted: boolean;
+  /** Fee paid by the lender for withdrawing deposit early, in bps. */
+  earlyWithdrawalFee: number;
+  /** Timestamp at which the position becomes liquidatable. */
+  deadline: bigint;
+};
+
+/**
+ * New terms for an existing position changed through `refinanceCredit`.
+ */
+export type RefinanceCreditTerms = {
+  /** Position to refinance. */
+  positionId: bigint;
+  /** Additional deposit **in smallest token units**, may be `0n`. */
+  amount: bigint;
+  /** New drawn rate. */
+  dRate: bigint;
+  /** New facility rate. */
+  fRate: bigint;
+  /** New deadline timestamp. */
+  deadline: bigint;
+};
+
+/**
+ * Encodes an `addCredit` proposal for the line nonce `nonce`.
+ */
+export function encodeAddCreditProposal({
+  nonce,
+  ...terms
+}: AddCreditTerms & { nonce: bigint }): CreditProposal {
+  const args = [
+    nonce,
+    terms.dRate,
+    terms.fRate,
+    terms.amount,
+    terms.token,
+    terms.lender,
+    terms.isRestricted,
+    terms.earlyWithdrawalFee,
+    terms.deadline,
+  ] as const;
+
+  return {
+    functionName: "addCredit",
+    args,
+    data: encodeFunctionData({
+      abi: SecuredLineABI,
+      functionName: "addCredit",
+      args,
+    }),
+  };
+}
+
+/**
+ * Encodes a `refinanceCredit` proposal for the line nonce `nonce`.
+ */
+export function encodeRefinanceCreditProposal({
+  nonce,
+  ...terms
+}: RefinanceCreditTerms & { nonce: bigint }): CreditProposal {
+  const args = [
+    nonce,
+    terms.positionId,
+    terms.amount,
+    terms.dRate,
+    terms.fRate,
+    terms.deadline,
+  ] as const;
+
+  return {
+    functionName: "refinanceCredit",
+    args,
+    data: encodeFunctionData({
+      abi: SecuredLineABI,
+      functionName: "refinanceCredit",
+      args,
+    }),
+  };
+}
+
+/**
+ * Computes the id the line stores a proposal under, mirroring the contract's
+ * `keccak256(abi.encodePacked(msg.data, proposer))`.
+ *
+ * @param proposal  The encoded proposal.
+ * @param proposer  Address that submitted (or will submit) the proposal.
+ */
+export function computeProposalId(
+  proposal: CreditProposal,
+  proposer: Address,
+): Hex {
+  return keccak256(
+    encodePacked(["bytes", "address"], [proposal.data, proposer]),
+  );
+}
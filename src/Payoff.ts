@@ -0,0 +1,189 @@
+/**
+ * Payoff quotes for borrowers. Debt is repaid through the repayment queue:
+ * `depositAndRepay` and `depositAndClose` only ever act on the position at
+ * its head (`ids(0)`, the position `nextInQ()` reports), paying interest
+ * before principal. Quotes project interest to a point in time and walk the
+ * queue in that order.
+ *
+ * @example
+ * ```ts
+ * const snapshot = await line.getLineState();
+ * const quote = quotePayoff(snapshot, { timestamp, positionId: 8n });
+ * for (const step of quote.steps) console.log(step.method, step.amount);
+ * ```
+ */
+
+import { type Address } from "viem";
+
+import { RepayAmountExceedsDebtError } from "./errors";
+import { BASE_DENOMINATOR, projectInterest } from "./Interest";
+import { type LineSnapshot, type PositionSnapshot } from "./LineState";
+
+/**
+ * One transaction of a payoff: closing a position and paying everything it
+ * owes.
+ */
+export type PayoffStep = {
+  id: bigint;
+  token: Address;
+  /**
+   * `depositAndClose` for a position with principal, which must be at the
+   * head of the queue, otherwise `close(id)`.
+   */
+  method: "depositAndClose" | "close";
+  principal: bigint;
+  /** Interest owed at the quote's timestamp, accrued and projected. */
+  interest: bigint;
+  /**
+   * Part of `interest` kept as the line's servicing fee rather than paid out
+   * to the lender. The borrower pays `amount` either way.
+   */
+  servicingFee: bigint;
+  /** Amount pulled from the borrower, `principal + interest`. */
+  amount: bigint;
+};
+
+/**
+ * What it takes to close one position, or every position of a line, at a
+ * point in time.
+ */
+export type PayoffQuote = {
+  /** Timestamp interest is projected to. */
+  timestamp: bigint;
+  /** Block the line state was read at. */
+  blockNumber: bigint;
+  /** Transactions to send, in order. */
+  steps: PayoffStep[];
+  /** Total amount to send per credit token. */
+  totals: { token: Address; amount: bigint }[];
+};
+
+/**
+ * How a `depositAndRepay` amount is applied to the position at the head of
+ * the queue.
+ */
+export type RepaymentSplit = {
+  id: bigint;
+  token: Address;
+  /** Part of the amount repaying interest. */
+  interest: bigint;
+  /** Part of the amount repaying principal. */
+  principal: bigint;
+  /** Part of `interest` kept as the line's servicing fee. */
+  servicingFee: bigint;
+  /** Interest still owed afterwards. */
+  remainingInterest: bigint;
+  /** Principal still owed afterwards. */
+  remainingPrincipal: bigint;
+};
+
+/**
+ * Quotes what closes `positionId`, or the whole line when omitted, at
+ * `timestamp`.
+ *
+ * A position with principal can only be repaid once every position ahead of
+ * it in the queue is, so its quote closes those first. A position without
+ * principal is closed on its own.
+ *
+ * @param snapshot          Line state, e.g. from `readLineState`.
+ * @param params.timestamp  Unix timestamp, in seconds, the payoff is sent at.
+ * @param params.positionId Position to close. Defaults to every position.
+ *
+ * @throws `Error` — If `positionId` is not open on the line
+ */
+export function quotePayoff(
+  snapshot: LineSnapshot,
+  { timestamp, positionId }: { timestamp: bigint; positionId?: bigint },
+): PayoffQuote {
+  const { positions } = snapshot;
+  let closing = positions;
+
+  if (positionId !== undefined) {
+    const index = positions.findIndex(({ id }) => id === positionId);
+    const target = positions[index];
+    if (!target) {
+      throw new Error(`position ${positionId} is not open on the line`);
+    }
+    closing =
+      target.principal > 0n
+        ? positions
+            .slice(0, index + 1)
+            .filter(({ principal }) => principal > 0n)
+        : [target];
+  }
+
+  const steps = closing.map((position): PayoffStep => {
+    const interest = owedInterest(position, timestamp);
+    return {
+      id: position.id,
+      token: position.token,
+      method: position.principal > 0n ? "depositAndClose" : "close",
+      principal: position.principal,
+      interest,
+      servicingFee: servicingFeeOf(snapshot, interest),
+      amount: position.principal + interest,
+    };
+  });
+
+  const totals = new Map<Address, bigint>();
+  for (const { token, amount } of steps) {
+    totals.set(token, (totals.get(token) ?? 0n) + amount);
+  }
+
+  return {
+    timestamp,
+    blockNumber: snapshot.blockNumber,
+    steps,
+    totals: [...totals].map(([token, amount]) => ({ token, amount })),
+  };
+}
+
+/**
+ * Splits a `depositAndRepay(amount)` sent at `timestamp` into interest and
+ * principal of the position at the head of the queue.
+ *
+ * @param snapshot   Line state, e.g. from `readLineState`.
+ * @param amount     Amount to repay **in smallest token units**.
+ * @param timestamp  Unix timestamp, in seconds, the repayment is sent at.
+ *
+ * @throws `Error` — If no position has principal
+ * @throws `RepayAmountExceedsDebtError` — If `amount` exceeds the debt of the
+ *         head position, as the line would revert
+ */
+export function splitRepayment(
+  snapshot: LineSnapshot,
+  amount: bigint,
+  timestamp: bigint,
+): RepaymentSplit {
+  const head = snapshot.positions[0];
+  if (!head || head.principal === 0n) {
+    throw new Error("no position with principal to repay");
+  }
+
+  const owed = owedInterest(head, timestamp);
+  if (amount > head.principal + owed) {
+    throw new RepayAmountExceedsDebtError({
+      totalAvailable: head.principal + owed,
+    });
+  }
+
+  const interest = amount < owed ? amount : owed;
+  const principal = amount - interest;
+  return {
+    id: head.id,
+    token: head.token,
+    interest,
+    principal,
+    servicingFee: servicingFeeOf(snapshot, interest),
+    remainingInterest: owed - interest,
+    remainingPrincipal: head.principal - principal,
+  };
+}
+
+function owedInterest(position: PositionSnapshot, timestamp: bigint): bigint {
+  return projectInterest(position, timestamp).interestAccrued;
+}
+
+function servicingFeeOf(snapshot: LineSnapshot, interest: bigint): bigint {
+  return (interest * BigInt(snapshot.fees.servicingFee)) / BASE_DENOMINATOR;
+}
@@ -0,0 +1,220 @@
+/**
+ * Spigot revenue of a line. The spigot holds the owner's share of revenue
+ * until the line claims it; `claimAndRepay` and `claimAndTrade` claim it and
+ * sell it for the credit token through 0x calldata the line forwards to its
+ * `swapTarget()`. Quotes come from a pluggable `QuoteProvider` and are checked
+ * against the allowed price impact before anything is sent.
+ *
+ * @example
+ * ```ts
+ * const [weth] = await readSpigotRevenue(publicClient, lineAddress, [WETH]);
+ * const quote = await quoteRevenueTrade(provider, {
+ *   chainId: 8453,
+ *   taker: lineAddress,
+ *   sellToken: WETH,
+ *   buyToken: USDC,
+ *   sellAmount: weth.claimable + weth.tradeable,
+ * }, 100n);
+ * ```
+ */
+
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  isAddressEqual,
+} from "viem";
+
+import SecuredLineABI from "./contracts/abis/SecuredLine";
+import SpigotABI from "./contracts/abis/Spigot";
+import { PriceImpactTooHighError } from "./errors";
+import { MULTICALL3_ADDRESS } from "./LineState";
+
+/**
+ * Revenue of one token across the spigot and the line's reserves.
+ */
+export type RevenueBalance = {
+  token: Address;
+  /** Owner share held by the spigot, claimed by the next claim. */
+  claimable: bigint;
+  /** Revenue already claimed into the line and not traded yet. */
+  tradeable: bigint;
+  /** Tokens held in the line's reserves and not used to repay yet. */
+  unused: bigint;
+};
+
+/**
+ * A sale of revenue tokens to quote.
+ */
+export type QuoteRequest = {
+  chainId: number;
+  /** Address the swap is executed from: the line. */
+  taker: Address;
+  sellToken: Address;
+  buyToken: Address;
+  /** Amount to sell **in smallest token units**. */
+  sellAmount: bigint;
+};
+
+/**
+ * A 0x swap quote.
+ */
+export type SwapQuote = {
+  sellToken: Address;
+  buyToken: Address;
+  sellAmount: bigint;
+  /** Amount bought **in smallest token units**. */
+  buyAmount: bigint;
+  /** Estimated price impact, in bps. */
+  priceImpact: bigint;
+  /** Calldata the line forwards to its `swapTarget()`. */
+  data: Hex;
+};
+
+/**
+ * Source of 0x swap quotes, e.g. a call to the 0x API.
+ */
+export type QuoteProvider = (request: QuoteRequest) => Promise<SwapQuote>;
+
+/**
+ * Quote provider and price impact limit used to trade spigot revenue.
+ */
+export type RevenueOptions = {
+  quoteProvider?: QuoteProvider;
+  /**
+   * Largest price impact to accept, in bps. Set it to the line's allowed OTC
+   * price impact, which the line does not expose as a view.
+   */
+  allowedPriceImpact?: bigint;
+};
+
+/**
+ * Reads the claimable, tradeable and unused amounts of revenue tokens.
+ *
+ * @param client   Public client connected to the line's chain.
+ * @param address  SecuredLine contract address.
+ * @param tokens   Revenue tokens to read.
+ *
+ * @returns `Promise<RevenueBalance[]>` — one balance per token, in order.
+ */
+export async function readSpigotRevenue(
+  client: PublicClient,
+  address: Address,
+  tokens: readonly Address[],
+): Promise<RevenueBalance[]> {
+  const line = { address, abi: SecuredLineABI } as const;
+  const options = {
+    allowFailure: false,
+    blockNumber: await client.getBlockNumber(),
+    multicallAddress:
+      client.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS,
+  } as const;
+
+  const spigot = await client.readContract({
+    ...line,
+    functionName: "spigot",
+    blockNumber: options.blockNumber,
+  });
+
+  const [claimable, tradeable, unused] = await Promise.all([
+    client.multicall({
+      ...options,
+      contracts: tokens.map(
+        (token) =>
+          ({
+            address: spigot,
+            abi: SpigotABI,
+            functionName: "getOwnerTokens",
+            args: [token],
+          }) as const,
+      ),
+    }),
+    client.multicall({
+      ...options,
+      contracts: tokens.map(
+        (token) =>
+          ({ ...line, functionName: "tradeable", args: [token] }) as const,
+      ),
+    }),
+    client.multicall({
+      ...options,
+      contracts: tokens.map(
+        (token) =>
+          ({ ...line, functionName: "unused", args: [token] }) as const,
+      ),
+    }),
+  ]);
+
+  return tokens.map((token, i) => ({
+    token,
+    claimable: claimable[i]!,
+    tradeable: tradeable[i]!,
+    unused: unused[i]!,
+  }));
+}
+
+/**
+ * Requests a quote and checks it before the line trades with it.
+ *
+ * @param provider            Source of quotes.
+ * @param request             The sale to quote.
+ * @param allowedPriceImpact  Largest price impact to accept, in bps.
+ *
+ * @throws `Error` — If the quote is for another sale than requested
+ * @throws `PriceImpactTooHighError` — If the quote's price impact exceeds
+ *         `allowedPriceImpact`
+ */
+export async function quoteRevenueTrade(
+  provider: QuoteProvider,
+  request: QuoteRequest,
+  allowedPriceImpact: bigint,
+): Promise<SwapQuote> {
+  const quote = await provider(request);
+
+  if (
+    !isAddressEqual(quote.sellToken, request.sellToken) ||
+    !isAddressEqual(quote.buyToken, request.buyToken) ||
+    quote.sellAmount !== request.sellAmount
+  ) {
+    throw new Error(
+      `quote sells ${quote.sellAmount} ${quote.sellToken} for ${quote.buyToken}, expected ${request.sellAmount} ${request.sellToken} for ${request.buyToken}`,
+    );
+  }
+  if (quote.priceImpact > allowedPriceImpact) {
+    throw new PriceImpactTooHighError({
+      priceImpact: quote.priceImpact,
+      allowedPriceImpact,
+    });
+  }
+
+  return quote;
+}
+
+/**
+ * Creates a quote provider that answers locally, for tests and dry runs.
+ *
+ * @param params.buyAmount    Amount bought, or a function of the request.
+ *                            Defaults to the amount sold.
+ * @param params.priceImpact  Price impact of every quote, in bps. Defaults
+ *                            to `0n`.
+ * @param params.data         Swap calldata of every quote. Defaults to
+ *                            `"0x"`.
+ */
+export function createStubQuoteProvider({
+  buyAmount = ({ sellAmount }) => sellAmount,
+  priceImpact = 0n,
+  data = "0x",
+}: {
+  buyAmount?: bigint | ((request: QuoteRequest) => bigint);
+  priceImpact?: bigint;
+  data?: Hex;
+} = {}): QuoteProvider {
+  return async (request) => ({
+    sellToken: request.sellToken,
+    buyToken: request.buyToken,
+    sellAmount: request.sellAmount,
+    buyAmount: typeof buyAmount === "bigint" ? buyAmount : buyAmount(request),
+    priceImpact,
+    data,
+  });
+}
@@ -0,0 +1,384 @@
+/**
+ * Wrapper for the **Spigot** module of a secured line. The spigot owns the
+ * borrower's revenue contracts: it claims their revenue, escrows the owner's
+ * split for the line to repay debt with, and leaves the rest to the operator,
+ * usually the borrower.
+ *
+ * @example
+ * ```ts
+ * const spigot = await line.getSpigot();
+ *
+ * for (const { address, ownerSplit } of await spigot.getRevenueContracts({
+ *   fromBlock: deployBlock,
+ * })) {
+ *   console.log(address, `${ownerSplit}% to the line`);
+ * }
+ * await spigot.claimRevenue({ revenueContract, token: USDC });
+ * ```
+ */
+
+import {
+  type AbiEvent,
+  type Address,
+  type BlockNumber,
+  type BlockTag,
+  type ContractEventName,
+  type Hex,
+  type ParseEventLogsReturnType,
+  type PublicClient,
+  type TransactionReceipt,
+  isAddressEqual,
+  parseEventLogs,
+} from "viem";
+
+import SpigotABI from "./contracts/abis/Spigot";
+import { NoSignerError } from "./errors";
+import { getLogsInChunks } from "./LineEvents";
+import { MULTICALL3_ADDRESS } from "./LineState";
+import { type SignerClient } from "./signer";
+import {
+  type ContractWriteCall,
+  type PendingTransaction,
+  type TransactionOptions,
+  submitContractWrite,
+} from "./transactions";
+
+/**
+ * A revenue contract registered with the spigot and its settings, as
+ * returned by `getSetting(address)`.
+ */
+export type RevenueContract = {
+  address: Address;
+  /** Percentage of claimed revenue escrowed for the owner, 0 to 100. */
+  ownerSplit: number;
+  /** Selector the spigot calls to claim revenue, or `0x00000000` for push payments. */
+  claimFunction: Hex;
+  /** Selector the spigot calls to hand the contract back to the operator. */
+  transferOwnerFunction: Hex;
+};
+
+/**
+ * Owner and operator tokens escrowed by the spigot for one token.
+ */
+export type SpigotBalance = {
+  token: Address;
+  /** Owner split claimed from revenue contracts and not withdrawn yet. */
+  ownerTokens: bigint;
+  /** Operator split claimed from revenue contracts and not withdrawn yet. */
+  operatorTokens: bigint;
+};
+
+const SPIGOT_EVENTS = [
+  "ClaimRevenue",
+  "ClaimOwnerTokens",
+  "ClaimOperatorTokens",
+] as const;
+
+/**
+ * Result of a spigot claim, carrying the `ClaimRevenue`, `ClaimOwnerTokens`
+ * and `ClaimOperatorTokens` events.
+ */
+export type SpigotResult = {
+  receipt: TransactionReceipt;
+  events: ParseEventLogsReturnType<
+    typeof SpigotABI,
+    (typeof SPIGOT_EVENTS)[number][],
+    true
+  >;
+};
+
+export class Spigot {
+  readonly address: Address;
+  private publicClient: PublicClient;
+  private walletClient: SignerClient | undefined;
+  private transactionOptions: TransactionOptions;
+
+  /**
+   * Creates a new `Spigot` wrapper.
+   *
+   * @param params.address             Spigot contract address.
+   * @param params.publicClient        Client used for reads and receipts.
+   * @param params.walletClient        Optional client used to sign writes.
+   * @param params.transactionOptions  Default confirmations, timeout and fee
+   *                                   strategy of every write.
+   */
+  constructor({
+    address,
+    publicClient,
+    walletClient,
+    transactionOptions = {},
+  }: {
+    address: Address;
+    publicClient: PublicClient;
+    walletClient?: SignerClient;
+    transactionOptions?: TransactionOptions;
+  }) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.transactionOptions = transactionOptions;
+  }
+
+  /**
+   * Reads the spigot's owner, the line for a spigot behind a secured line.
+   */
+  async getOwner(): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SpigotABI,
+      functionName: "owner",
+    });
+  }
+
+  /**
+   * Reads the spigot's operator, who runs the revenue contracts and receives
+   * the operator split.
+   */
+  async getOperator(): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SpigotABI,
+      functionName: "operator",
+    });
+  }
+
+  /**
+   * Reads the settings of a revenue contract.
+   *
+   * Wraps the Solidity call `getSetting(address revenueContract)`.
+   *
+   * @param revenueContract  Revenue contract address.
+   */
+  async getSetting(revenueContract: Address): Promise<RevenueContract> {
+    const [ownerSplit, claimFunction, transferOwnerFunction] =
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: SpigotABI,
+        functionName: "getSetting",
+        args: [revenueContract],
+      });
+    return {
+      address: revenueContract,
+      ownerSplit,
+      claimFunction,
+      transferOwnerFunction,
+    };
+  }
+
+  /**
+   * Lists the revenue contracts currently registered with the spigot.
+   *
+   * The spigot keeps no list of its revenue contracts, so they are replayed
+   * from its `AddSpigot` and `RemoveSpigot` events, then their settings are
+   * read.
+   *
+   * @param params.fromBlock  First block to search, e.g. the spigot's
+   *                          deployment block.
+   * @param params.toBlock    Last block to search. Defaults to `"latest"`.
+   * @param params.chunkSize  Blocks requested per `eth_getLogs` call.
+   *                          Defaults to `10_000`.
+   *
+   * @returns `Promise<RevenueContract[]>` — registered contracts in the order
+   *          they were added.
+   */
+  async getRevenueContracts({
+    fromBlock,
+    toBlock = "latest",
+    chunkSize,
+  }: {
+    fromBlock: BlockNumber;
+    toBlock?: BlockNumber | BlockTag;
+    chunkSize?: bigint;
+  }): Promise<RevenueContract[]> {
+    const eventNames: ContractEventName<typeof SpigotABI>[] = [
+      "AddSpigot",
+      "RemoveSpigot",
+    ];
+    const logs = await getLogsInChunks(this.publicClient, {
+      address: this.address,
+      events: SpigotABI.filter(
+        (item): item is Extract<typeof item, AbiEvent> =>
+          item.type === "event" && eventNames.includes(item.name),
+      ),
+      fromBlock,
+      toBlock,
+      ...(chunkSize !== undefined && { chunkSize }),
+    });
+
+    let registered: Address[] = [];
+    for (const { eventName, args } of parseEventLogs({
+      abi: SpigotABI,
+      eventName: ["AddSpigot", "RemoveSpigot"],
+      logs,
+      strict: true,
+    })) {
+      registered = registered.filter(
+        (address) => !isAddressEqual(address, args.revenueContract),
+      );
+      if (eventName === "AddSpigot") {
+        registered.push(args.revenueContract);
+      }
+    }
+
+    return Promise.all(registered.map((address) => this.getSetting(address)));
+  }
+
+  /**
+   * Reads the owner and operator tokens the spigot escrows.
+   *
+   * Wraps the Solidity calls `getOwnerTokens(address token)` and
+   * `getOperatorTokens(address token)`, batched through Multicall3 and
+   * pinned to the latest block.
+   *
+   * @param tokens  Revenue tokens to read.
+   *
+   * @returns `Promise<SpigotBalance[]>` — one balance per token, in order.
+   */
+  async getBalances(tokens: readonly Address[]): Promise<SpigotBalance[]> {
+    const spigot = { address: this.address, abi: SpigotABI } as const;
+    const balances = await this.publicClient.multicall({
+      allowFailure: false,
+      blockNumber: await this.publicClient.getBlockNumber(),
+      multicallAddress:
+        this.publicClient.chain?.contracts?.multicall3?.address ??
+        MULTICALL3_ADDRESS,
+      contracts: tokens.flatMap(
+        (token) =>
+          [
+            { ...spigot, functionName: "getOwnerTokens", args: [token] },
+            { ...spigot, functionName: "getOperatorTokens", args: [token] },
+          ] as const,
+      ),
+    });
+
+    return tokens.map((token, i) => ({
+      token,
+      ownerTokens: balances[2 * i]!,
+      operatorTokens: balances[2 * i + 1]!,
+    }));
+  }
+
+  /**
+   * Claims revenue from a revenue contract and splits it between owner and
+   * operator.
+   *
+   * Wraps the Solidity call `claimRevenue(address revenueContract, address
+   * token, bytes data)`. Anyone may call it.
+   *
+   * @param params.revenueContract  Revenue contract to claim from.
+   * @param params.token            Token the revenue is paid in.
+   * @param params.data             Calldata of the contract's claim
+   *                                function. Defaults to `"0x"`, for
+   *                                contracts paying the spigot directly.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<SpigotResult>` — the receipt and decoded
+   *          `ClaimRevenue` event once the transaction is confirmed.
+   *
+   * @throws `NoSignerError` — If the spigot was created without a signer
+   * @throws `SpigotRevertError` — If the transaction reverts, e.g.
+   *         `NoRevenueError` when there is nothing to claim
+   */
+  claimRevenue({
+    revenueContract,
+    token,
+    data = "0x",
+    ...options
+  }: {
+    revenueContract: Address;
+    token: Address;
+    data?: Hex;
+  } & TransactionOptions): PendingTransaction<SpigotResult> {
+    return this.send(
+      { functionName: "claimRevenue", args: [revenueContract, token, data] },
+      options,
+    );
+  }
+
+  /**
+   * Withdraws the escrowed owner tokens to the owner.
+   *
+   * Wraps the Solidity call `claimOwnerTokens(address token)`. Only the owner
+   * may call it; behind a secured line, the line claims them through
+   * `claimAndRepay` and `claimAndTrade`.
+   *
+   * @param token    Revenue token to withdraw.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<SpigotResult>` — the receipt and decoded
+   *          `ClaimOwnerTokens` event once the transaction is confirmed.
+   *
+   * @throws `NoSignerError` — If the spigot was created without a signer
+   * @throws `SpigotRevertError` — If the transaction reverts, e.g.
+   *         `SpigotCallerAccessDeniedError`
+   */
+  claimOwnerTokens(
+    token: Address,
+    options: TransactionOptions = {},
+  ): PendingTransaction<SpigotResult> {
+    return this.send(
+      { functionName: "claimOwnerTokens", args: [token] },
+      options,
+    );
+  }
+
+  /**
+   * Withdraws the escrowed operator tokens to the operator.
+   *
+   * Wraps the Solidity call `claimOperatorTokens(address token)`. Only the
+   * operator may call it.
+   *
+   * @param token    Revenue token to withdraw.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<SpigotResult>` — the receipt and decoded
+   *          `ClaimOperatorTokens` event once the transaction is confirmed.
+   *
+   * @throws `NoSignerError` — If the spigot was created without a signer
+   * @throws `SpigotRevertError` — If the transaction reverts, e.g.
+   *         `SpigotCallerAccessDeniedError`
+   */
+  claimOperatorTokens(
+    token: Address,
+    options: TransactionOptions = {},
+  ): PendingTransaction<SpigotResult> {
+    return this.send(
+      { functionName: "claimOperatorTokens", args: [token] },
+      options,
+    );
+  }
+
+  /**
+   * Sends a spigot transaction and decodes the claim events of its receipt.
+   * Gas is estimated up front so that a revert surfaces before anything is
+   * broadcast.
+   */
+  private send(
+    call: ContractWriteCall<typeof SpigotABI>,
+    options: TransactionOptions,
+  ): PendingTransaction<SpigotResult> {
+    return submitContractWrite({
+      publicClient: this.publicClient,
+      address: this.address,
+      abi: SpigotABI,
+      prepare: async () => {
+        if (!this.walletClient) {
+          throw new NoSignerError();
+        }
+        return { walletClient: this.walletClient, call };
+      },
+      onMined: (receipt) => ({
+        receipt,
+        events: parseEventLogs({
+          abi: SpigotABI,
+          eventName: [...SPIGOT_EVENTS],
+          logs: receipt.logs.filter((log) =>
+            isAddressEqual(log.address, this.address),
+          ),
+        }),
+      }),
+      options: { ...this.transactionOptions, ...options },
+    });
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Helpers for loading signing accounts from the formats backends usually keep
+ * keys in. The returned accounts can be passed to `SecuredLine` as `account`.
+ *
+ * @example
+ * ```ts
+ * const account = await accountFromKeystore(
+ *   await readFile('keystore.json', 'utf8'),
+ *   process.env.KEYSTORE_PASSWORD,
+ * );
+ * const line = new SecuredLine({ address, chainId: 'base', rpcUrl, account });
+ * ```
+ */
+
+import {
+  type Hex,
+  bytesToHex,
+  concat,
+  hexToBytes,
+  keccak256,
+  toHex,
+} from "viem";
+import {
+  type HDAccount,
+  type PrivateKeyAccount,
+  mnemonicToAccount,
+  privateKeyToAccount,
+} from "viem/accounts";
+
+import { InvalidKeystoreError } from "./errors";
+
+/**
+ * BIP-44 derivation path for Ethereum accounts, e.g. `"m/44'/60'/0'/0/0"`.
+ */
+export type DerivationPath = `m/44'/60'/${string}`;
+
+/**
+ * Encrypted JSON keystore in the Web3 Secret Storage (v3) format, as written
+ * by geth, Foundry's `cast wallet` and most wallets.
+ */
+export type Keystore = {
+  version: 3;
+  crypto: {
+    cipher: string;
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: string;
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      n?: number;
+      r?: number;
+      p?: number;
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+};
+
+/**
+ * Derives an account from a BIP-39 mnemonic.
+ *
+ * @param mnemonic     Space-separated BIP-39 phrase.
+ * @param params.path  Derivation path. Defaults to `"m/44'/60'/0'/0/0"`.
+ *
+ * @returns The derived `HDAccount`.
+ */
+export function accountFromMnemonic(
+  mnemonic: string,
+  { path = "m/44'/60'/0'/0/0" }: { path?: DerivationPath } = {},
+): HDAccount {
+  return mnemonicToAccount(mnemonic, { path });
+}
+
+/**
+ * Decrypts a v3 JSON keystore into an account. Supports the `scrypt` and
+ * `pbkdf2` (hmac-sha256) key derivation functions with `aes-128-ctr`.
+ *
+ * Decryption relies on `node:crypto`, so this helper is only available in
+ * Node.js.
+ *
+ * @param keystore  Keystore JSON, either as a string or already parsed.
+ * @param password  Password the keystore was encrypted with.
+ *
+ * @returns The decrypted `PrivateKeyAccount`.
+ *
+ * @throws `InvalidKeystoreError` — If the keystore is malformed or uses an
+ *         unsupported cipher or KDF, or if the password is wrong.
+ */
+export async function accountFromKeystore(
+  keystore: string | Keystore,
+  password: string,
+): Promise<PrivateKeyAccount> {
+  const { crypto } = parseKeystore(keystore);
+  const { createDecipheriv, pbkdf2, scrypt } = await import("node:crypto");
+
+  const salt = hexToBytes(toHex0x(crypto.kdfparams.salt));
+  const { dklen } = crypto.kdfparams;
+  const derivedKey = await new Promise<Uint8Array>((resolve, reject) => {
+    const done = (error: Error | null, key: Buffer) =>
+      error ? reject(error) : resolve(new Uint8Array(key));
+
+    if (crypto.kdf === "scrypt") {
+      const { n = 0, r = 0, p = 0 } = crypto.kdfparams;
+      // Node's default limit (32 MiB) is below what geth's standard
+      // parameters (n = 2^18, r = 8) need.
+      const maxmem = 2 * 128 * r * (n + p + 2);
+      scrypt(password, salt, dklen, { N: n, r, p, maxmem }, done);
+    } else {
+      pbkdf2(password, salt, crypto.kdfparams.c ?? 0, dklen, "sha256", done);
+    }
+  });
+
+  const ciphertext = toHex0x(crypto.ciphertext);
+  const mac = keccak256(
+    concat([bytesToHex(derivedKey.slice(16, 32)), ciphertext]),
+  );
+  if (mac !== toHex0x(crypto.mac).toLowerCase()) {
+    throw new InvalidKeystoreError("wrong password or corrupted keystore");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.slice(0, 16),
+    hexToBytes(toHex0x(crypto.cipherparams.iv)),
+  );
+  const privateKey = concat([
+    toHex(decipher.update(hexToBytes(ciphertext))),
+    toHex(decipher.final()),
+  ]);
+
+  return privateKeyToAccount(privateKey);
+}
+
+function parseKeystore(keystore: string | Keystore): Keystore {
+  let parsed: Keystore;
+  try {
+    parsed = typeof keystore === "string" ? JSON.parse(keystore) : keystore;
+  } catch {
+    throw new InvalidKeystoreError("keystore is not valid JSON");
+  }
+
+  // Some wallets write `Crypto` instead of `crypto`.
+  const legacy = parsed as unknown as { Crypto?: Keystore["crypto"] };
+  const crypto = parsed.crypto ?? legacy.Crypto;
+  if (parsed.version !== 3 || !crypto) {
+    throw new InvalidKeystoreError("only version 3 keystores are supported");
+  }
+  if (crypto.cipher !== "aes-128-ctr") {
+    throw new InvalidKeystoreError(`unsupported cipher ${crypto.cipher}`);
+  }
+  if (
+    crypto.kdf !== "scrypt" &&
+    !(crypto.kdf === "pbkdf2" && crypto.kdfparams.prf === "hmac-sha256")
+  ) {
+    throw new InvalidKeystoreError(`unsupported kdf ${crypto.kdf}`);
+  }
+
+  return { ...parsed, crypto };
+}
+
+function toHex0x(value: string): Hex {
+  return (value.startsWith("0x") ? value : `0x${value}`) as Hex;
+}
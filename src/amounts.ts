@@ -0,0 +1,81 @@
+/**
+ * Human-readable token amounts. On-chain amounts are integers in the token's
+ * smallest unit; a `TokenAmount` carries that integer together with its
+ * decimal notation and the token symbol, so `1_000_000n` USDC reads as
+ * `"1"` USDC.
+ *
+ * @example
+ * ```ts
+ * const amount = toTokenAmount(10_000_000_000n, { symbol: "USDC", decimals: 6 });
+ * // { raw: 10000000000n, formatted: "10000", symbol: "USDC" }
+ * ```
+ */
+
+import { type Address, formatUnits } from "viem";
+
+/**
+ * ERC-20 metadata of a credit token.
+ */
+export type TokenMetadata = {
+  address: Address;
+  name: string;
+  symbol: string;
+  decimals: number;
+};
+
+/**
+ * A token amount in smallest units and in decimal notation.
+ */
+export type TokenAmount = {
+  /** Amount in smallest token units. */
+  raw: bigint;
+  /** Amount in whole tokens, e.g. `"10000.5"`. */
+  formatted: string;
+  symbol: string;
+};
+
+/**
+ * An amount passed to `SecuredLine`: smallest token units, or a
+ * `TokenAmount`, of which `raw` is used.
+ */
+export type Amount = bigint | TokenAmount;
+
+/**
+ * `value` with the amounts under `key` replaced by `TokenAmount`s.
+ */
+export type WithTokenAmounts<value, key extends keyof value> = Omit<
+  value,
+  key
+> & { [field in key]: TokenAmount };
+
+/**
+ * Wraps an amount in smallest units of a token into a `TokenAmount`.
+ */
+export function toTokenAmount(
+  raw: bigint,
+  { symbol, decimals }: Pick<TokenMetadata, "symbol" | "decimals">,
+): TokenAmount {
+  return { raw, formatted: formatUnits(raw, decimals), symbol };
+}
+
+/**
+ * Returns an amount in smallest token units.
+ */
+export function toRawAmount(amount: Amount): bigint {
+  return typeof amount === "bigint" ? amount : amount.raw;
+}
+
+/**
+ * Replaces the amounts under `keys` of `value` by `TokenAmount`s of the
+ * token described by `metadata`.
+ */
+export function withTokenAmounts<value, key extends keyof value>(
+  value: value,
+  keys: readonly key[],
+  metadata: Pick<TokenMetadata, "symbol" | "decimals">,
+): WithTokenAmounts<value, key> {
+  const amounts = Object.fromEntries(
+    keys.map((key) => [key, toTokenAmount(value[key] as bigint, metadata)]),
+  );
+  return { ...value, ...amounts } as WithTokenAmounts<value, key>;
+}
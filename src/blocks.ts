@@ -0,0 +1,80 @@
+/**
+ * Block selection for historical reads. Every read on `SecuredLine` accepts
+ * either a `blockNumber` or a `blockTag`; `findBlockNumberByTimestamp` turns a
+ * wall-clock time into the block that was current at that time.
+ *
+ * @example
+ * ```ts
+ * const blockNumber = await findBlockNumberByTimestamp(
+ *   publicClient,
+ *   new Date("2026-09-30T23:59:59Z"),
+ * );
+ * const position = await line.getPosition(positionId, { blockNumber });
+ * ```
+ */
+
+import { type BlockTag, type PublicClient } from "viem";
+
+import { BlockNotFoundError } from "./errors";
+
+/**
+ * Block a read is executed at. At most one of `blockNumber` or `blockTag` may
+ * be given; reads default to the latest block.
+ */
+export type BlockOptions =
+  | {
+      /** Block number to read at. */
+      blockNumber?: bigint;
+      blockTag?: undefined;
+    }
+  | {
+      /** Block tag to read at, e.g. `"finalized"`. */
+      blockTag?: BlockTag;
+      blockNumber?: undefined;
+    };
+
+/**
+ * Finds the last block mined at or before `timestamp` by binary search over
+ * block headers. Needs `O(log n)` `eth_getBlockByNumber` calls.
+ *
+ * @param client     Public client connected to the chain to search.
+ * @param timestamp  A `Date`, or a Unix timestamp in seconds.
+ *
+ * @returns `Promise<bigint>` — the block number.
+ *
+ * @throws `BlockNotFoundError` — If `timestamp` precedes the genesis block.
+ */
+export async function findBlockNumberByTimestamp(
+  client: PublicClient,
+  timestamp: Date | bigint,
+): Promise<bigint> {
+  const target =
+    timestamp instanceof Date
+      ? BigInt(Math.floor(timestamp.getTime() / 1000))
+      : timestamp;
+
+  const blockTimestamp = async (blockNumber: bigint) =>
+    (await client.getBlock({ blockNumber })).timestamp;
+
+  const latest = await client.getBlock({ blockTag: "latest" });
+  if (latest.timestamp <= target) {
+    return latest.number;
+  }
+  if ((await blockTimestamp(0n)) > target) {
+    throw new BlockNotFoundError(target);
+  }
+
+  // Invariant: block `low` was mined at or before `target`, block `high`
+  // after it.
+  let low = 0n;
+  let high = latest.number;
+  while (high - low > 1n) {
+    const middle = (low + high) / 2n;
+    if ((await blockTimestamp(middle)) <= target) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,1364 @@
+/**
+ * Error classes thrown by the SDK.
+ *
+ * Every custom error declared in the SecuredLine ABI has a matching
+ * `LineRevertError` subclass, and every one declared in the Escrow or Spigot
+ * ABI an `EscrowRevertError` or `SpigotRevertError` subclass, carrying the decoded revert arguments and a
+ * stable `code`, so callers can branch on `instanceof` or `code` instead of
+ * matching on viem error messages.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await line.borrow({ positionId, amount });
+ * } catch (error) {
+ *   if (error instanceof NoLiquidityError) {
+ *     // ask for a smaller amount
+ *   }
+ * }
+ * ```
+ */
+
+import {
+  type Abi,
+  type Address,
+  type ContractErrorArgs,
+  type ContractErrorName,
+  type Hex,
+  type TransactionReceipt,
+  BaseError,
+  ContractFunctionRevertedError,
+  formatUnits,
+} from "viem";
+
+import EscrowABI from "./contracts/abis/Escrow";
+import SecuredLineABI from "./contracts/abis/SecuredLine";
+import SpigotABI from "./contracts/abis/Spigot";
+import type { LineRole } from "./LineRoles";
+
+/**
+ * Base class of every error thrown by the SDK.
+ */
+export class CreditCoopError extends Error {
+  /** Stable, machine-readable identifier of the error. */
+  readonly code: string;
+  /** Underlying error, e.g. the viem error a revert was decoded from. */
+  readonly cause: unknown;
+
+  constructor(code: string, message: string, cause?: unknown) {
+    super(message);
+    this.name = "CreditCoopError";
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * A write method was called on an object constructed without a signer.
+ */
+export class NoSignerError extends CreditCoopError {
+  constructor() {
+    super(
+      "NO_SIGNER",
+      "no signer configured: pass a privateKey, account, walletClient or provider to send transactions",
+    );
+    this.name = "NoSignerError";
+  }
+}
+
+/**
+ * A `chainId` that is not a key of `viem/chains` was passed.
+ */
+export class UnsupportedChainError extends CreditCoopError {
+  readonly chainId: string;
+
+  constructor(chainId: string) {
+    super(
+      "UNSUPPORTED_CHAIN",
+      `unsupported chainId "${chainId}": expected a key of viem/chains, e.g. "base"`,
+    );
+    this.name = "UnsupportedChainError";
+    this.chainId = chainId;
+  }
+}
+
+/**
+ * A JSON keystore could not be decrypted.
+ */
+export class InvalidKeystoreError extends CreditCoopError {
+  constructor(reason: string) {
+    super("INVALID_KEYSTORE", `invalid keystore: ${reason}`);
+    this.name = "InvalidKeystoreError";
+  }
+}
+
+/**
+ * A timestamp precedes the chain's genesis block, so no block was produced at
+ * or before it.
+ */
+export class BlockNotFoundError extends CreditCoopError {
+  readonly timestamp: bigint;
+
+  constructor(timestamp: bigint) {
+    super(
+      "BLOCK_NOT_FOUND",
+      `no block at or before timestamp ${timestamp}: it precedes the genesis block`,
+    );
+    this.name = "BlockNotFoundError";
+    this.timestamp = timestamp;
+  }
+}
+
+/**
+ * A transaction was not mined within the configured `timeout`. It may still
+ * be pending: the transaction handle can `speedUp()` or `cancel()` it, and
+ * the hash either returns can be awaited with `waitForTransactionReceipt`.
+ */
+export class TransactionTimeoutError extends CreditCoopError {
+  readonly hash: Hex;
+  readonly timeout: number;
+
+  constructor(hash: Hex, timeout: number, cause?: unknown) {
+    super(
+      "TRANSACTION_TIMEOUT",
+      `transaction ${hash} was not mined within ${timeout}ms`,
+      cause,
+    );
+    this.name = "TransactionTimeoutError";
+    this.hash = hash;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * A transaction was replaced at the same nonce by one that does something
+ * else, e.g. cancelled through its transaction handle.
+ */
+export class TransactionReplacedError extends CreditCoopError {
+  readonly hash: Hex;
+  readonly reason: "cancelled" | "replaced";
+  /** Receipt of the replacement transaction. */
+  readonly replacement: TransactionReceipt;
+
+  constructor(
+    hash: Hex,
+    reason: "cancelled" | "replaced",
+    replacement: TransactionReceipt,
+  ) {
+    super(
+      "TRANSACTION_REPLACED",
+      `transaction ${hash} was ${reason} by ${replacement.transactionHash}`,
+    );
+    this.name = "TransactionReplacedError";
+    this.hash = hash;
+    this.reason = reason;
+    this.replacement = replacement;
+  }
+}
+
+/**
+ * A transaction was mined but reverted. When replaying it in the block it
+ * was mined in reverts too, `cause` is that revert, decoded as e.g. a
+ * `LineRevertError` subclass for a revert the called contract declares.
+ */
+export class TransactionRevertedError extends CreditCoopError {
+  readonly hash: Hex;
+  readonly receipt: TransactionReceipt;
+
+  constructor(hash: Hex, receipt: TransactionReceipt, cause?: unknown) {
+    super(
+      "TRANSACTION_REVERTED",
+      `transaction ${hash} reverted in block ${receipt.blockNumber}` +
+        (cause instanceof CreditCoopError ? `: ${cause.message}` : ""),
+      cause,
+    );
+    this.name = "TransactionRevertedError";
+    this.hash = hash;
+    this.receipt = receipt;
+  }
+}
+
+/**
+ * The signing wallet holds less of a token than an action needs.
+ */
+export class InsufficientBalanceError extends CreditCoopError {
+  readonly token: Address;
+  readonly have: bigint;
+  readonly need: bigint;
+
+  constructor({
+    token,
+    symbol,
+    decimals,
+    have,
+    need,
+  }: {
+    token: Address;
+    symbol: string;
+    decimals: number;
+    have: bigint;
+    need: bigint;
+  }) {
+    super(
+      "INSUFFICIENT_BALANCE",
+      `insufficient ${symbol} balance: have ${formatUnits(have, decimals)} need ${formatUnits(need, decimals)}`,
+    );
+    this.name = "InsufficientBalanceError";
+    this.token = token;
+    this.have = have;
+    this.need = need;
+  }
+}
+
+/**
+ * The signing wallet has approved less of a token than an action pulls.
+ */
+export class InsufficientAllowanceError extends CreditCoopError {
+  readonly token: Address;
+  readonly have: bigint;
+  readonly need: bigint;
+
+  constructor({
+    token,
+    symbol,
+    decimals,
+    have,
+    need,
+  }: {
+    token: Address;
+    symbol: string;
+    decimals: number;
+    have: bigint;
+    need: bigint;
+  }) {
+    super(
+      "INSUFFICIENT_ALLOWANCE",
+      `insufficient ${symbol} allowance: have ${formatUnits(have, decimals)} need ${formatUnits(need, decimals)}`,
+    );
+    this.name = "InsufficientAllowanceError";
+    this.token = token;
+    this.have = have;
+    this.need = need;
+  }
+}
+
+/**
+ * The signing wallet holds none of the line roles an action is restricted
+ * to, so the line would reject it.
+ */
+export class MissingRoleError extends CreditCoopError {
+  readonly account: Address;
+  /** Roles any one of which allows the action, e.g. `["admin"]`. */
+  readonly roles: readonly LineRole[];
+
+  constructor({
+    account,
+    action,
+    roles,
+  }: {
+    account: Address;
+    action: string;
+    roles: readonly LineRole[];
+  }) {
+    super(
+      "MISSING_ROLE",
+      `${account} cannot ${action}: requires ${roles.join(" or ")}`,
+    );
+    this.name = "MissingRoleError";
+    this.account = account;
+    this.roles = roles;
+  }
+}
+
+/**
+ * A swap quote would move the price more than the line allows.
+ */
+export class PriceImpactTooHighError extends CreditCoopError {
+  /** Price impact of the quote, in bps. */
+  readonly priceImpact: bigint;
+  /** Largest price impact allowed, in bps. */
+  readonly allowedPriceImpact: bigint;
+
+  constructor({
+    priceImpact,
+    allowedPriceImpact,
+  }: {
+    priceImpact: bigint;
+    allowedPriceImpact: bigint;
+  }) {
+    super(
+      "PRICE_IMPACT_TOO_HIGH",
+      `price impact too high: ${priceImpact} bps exceeds the allowed ${allowedPriceImpact} bps`,
+    );
+    this.name = "PriceImpactTooHighError";
+    this.priceImpact = priceImpact;
+    this.allowedPriceImpact = allowedPriceImpact;
+  }
+}
+
+/**
+ * A lender asked to withdraw more from a position than it can pay out.
+ */
+export class WithdrawExceedsAvailableError extends CreditCoopError {
+  readonly positionId: bigint;
+  /** Deposit and interest the position can pay out. */
+  readonly available: bigint;
+  readonly amount: bigint;
+
+  constructor({
+    positionId,
+    available,
+    amount,
+  }: {
+    positionId: bigint;
+    available: bigint;
+    amount: bigint;
+  }) {
+    super(
+      "WITHDRAW_EXCEEDS_AVAILABLE",
+      `withdraw amount exceeds available: have ${available} need ${amount}`,
+    );
+    this.name = "WithdrawExceedsAvailableError";
+    this.positionId = positionId;
+    this.available = available;
+    this.amount = amount;
+  }
+}
+
+/**
+ * The counterparty of a mutual-consent call has not proposed it, so
+ * accepting it would only register a new proposal.
+ */
+export class NoMatchingProposalError extends CreditCoopError {
+  /** Mutual-consent function of the proposal, e.g. `"addCredit"`. */
+  readonly functionName: string;
+  readonly counterparty: Address;
+
+  constructor({
+    functionName,
+    counterparty,
+  }: {
+    functionName: string;
+    counterparty: Address;
+  }) {
+    super(
+      "NO_MATCHING_PROPOSAL",
+      `no matching ${functionName} proposal from ${counterparty}`,
+    );
+    this.name = "NoMatchingProposalError";
+    this.functionName = functionName;
+    this.counterparty = counterparty;
+  }
+}
+
+/**
+ * Trading revenue was requested without a quote provider or an allowed
+ * price impact, set on the line or passed to the call.
+ */
+export class MissingQuoteProviderError extends CreditCoopError {
+  constructor() {
+    super(
+      "MISSING_QUOTE_PROVIDER",
+      "trading revenue needs a quoteProvider and allowedPriceImpact",
+    );
+    this.name = "MissingQuoteProviderError";
+  }
+}
+
+/**
+ * The line was deployed without an escrow, so it holds no collateral.
+ */
+export class NoEscrowError extends CreditCoopError {
+  readonly line: Address;
+
+  constructor(line: Address) {
+    super("NO_ESCROW", `line ${line} has no escrow`);
+    this.name = "NoEscrowError";
+    this.line = line;
+  }
+}
+
+/**
+ * The line was deployed without a spigot, so it has no revenue contracts.
+ */
+export class NoSpigotError extends CreditCoopError {
+  readonly line: Address;
+
+  constructor(line: Address) {
+    super("NO_SPIGOT", `line ${line} has no spigot`);
+    this.name = "NoSpigotError";
+    this.line = line;
+  }
+}
+
+/**
+ * Name of a custom error declared in the SecuredLine ABI.
+ */
+export type LineErrorName = ContractErrorName<typeof SecuredLineABI>;
+
+/**
+ * Base class of the errors decoded from a SecuredLine revert.
+ */
+export class LineRevertError extends CreditCoopError {
+  /** Name of the Solidity custom error, e.g. `"NoLiquidity"`. */
+  readonly errorName: LineErrorName;
+
+  constructor(
+    code: string,
+    errorName: LineErrorName,
+    message: string,
+    cause?: unknown,
+  ) {
+    super(code, `${errorName}: ${message}`, cause);
+    this.name = "LineRevertError";
+    this.errorName = errorName;
+  }
+}
+
+/**
+ * `AlreadyInitialized`: the line is already initialized.
+ */
+export class AlreadyInitializedError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "ALREADY_INITIALIZED",
+      "AlreadyInitialized",
+      "the line is already initialized",
+      cause,
+    );
+    this.name = "AlreadyInitializedError";
+  }
+}
+
+/**
+ * `BadModule`: `module` is not a valid spigot or escrow module for this line.
+ */
+export class BadModuleError extends LineRevertError {
+  readonly module: Address;
+
+  constructor({ module }: { module: Address }, cause?: unknown) {
+    super(
+      "BAD_MODULE",
+      "BadModule",
+      `${module} is not a valid spigot or escrow module for this line`,
+      cause,
+    );
+    this.name = "BadModuleError";
+    this.module = module;
+  }
+}
+
+/**
+ * `BadStatus`: the line status does not allow this action.
+ */
+export class BadStatusError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "BAD_STATUS",
+      "BadStatus",
+      "the line status does not allow this action",
+      cause,
+    );
+    this.name = "BadStatusError";
+  }
+}
+
+/**
+ * `BorrowFailed`: the borrow could not be completed.
+ */
+export class BorrowFailedError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "BORROW_FAILED",
+      "BorrowFailed",
+      "the borrow could not be completed",
+      cause,
+    );
+    this.name = "BorrowFailedError";
+  }
+}
+
+/**
+ * `CallerAccessDenied`: the signing wallet is not allowed to call this function.
+ */
+export class CallerAccessDeniedError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "CALLER_ACCESS_DENIED",
+      "CallerAccessDenied",
+      "the signing wallet is not allowed to call this function",
+      cause,
+    );
+    this.name = "CallerAccessDeniedError";
+  }
+}
+
+/**
+ * `CannotAmendLine`: the line can no longer be amended.
+ */
+export class CannotAmendLineError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "CANNOT_AMEND_LINE",
+      "CannotAmendLine",
+      "the line can no longer be amended",
+      cause,
+    );
+    this.name = "CannotAmendLineError";
+  }
+}
+
+/**
+ * `CantStepQ`: the repayment queue cannot be stepped.
+ */
+export class CantStepQError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "CANT_STEP_Q",
+      "CantStepQ",
+      "the repayment queue cannot be stepped",
+      cause,
+    );
+    this.name = "CantStepQError";
+  }
+}
+
+/**
+ * `CloseFailedWithPrincipal`: the position still has outstanding principal, repay it before closing.
+ */
+export class CloseFailedWithPrincipalError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "CLOSE_FAILED_WITH_PRINCIPAL",
+      "CloseFailedWithPrincipal",
+      "the position still has outstanding principal, repay it before closing",
+      cause,
+    );
+    this.name = "CloseFailedWithPrincipalError";
+  }
+}
+
+/**
+ * `DebtOwed`: the line still has outstanding debt.
+ */
+export class DebtOwedError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "DEBT_OWED",
+      "DebtOwed",
+      "the line still has outstanding debt",
+      cause,
+    );
+    this.name = "DebtOwedError";
+  }
+}
+
+/**
+ * `EthNotSupported`: ETH is not supported as a credit token.
+ */
+export class EthNotSupportedError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "ETH_NOT_SUPPORTED",
+      "EthNotSupported",
+      "ETH is not supported as a credit token",
+      cause,
+    );
+    this.name = "EthNotSupportedError";
+  }
+}
+
+/**
+ * `EthSupportDisabled`: ETH support is disabled on this line.
+ */
+export class EthSupportDisabledError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "ETH_SUPPORT_DISABLED",
+      "EthSupportDisabled",
+      "ETH support is disabled on this line",
+      cause,
+    );
+    this.name = "EthSupportDisabledError";
+  }
+}
+
+/**
+ * `InvalidAddress`: an address argument is invalid.
+ */
+export class InvalidAddressError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "INVALID_ADDRESS",
+      "InvalidAddress",
+      "an address argument is invalid",
+      cause,
+    );
+    this.name = "InvalidAddressError";
+  }
+}
+
+/**
+ * `InvalidConsent`: the mutual-consent proposal is invalid.
+ */
+export class InvalidConsentError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "INVALID_CONSENT",
+      "InvalidConsent",
+      "the mutual-consent proposal is invalid",
+      cause,
+    );
+    this.name = "InvalidConsentError";
+  }
+}
+
+/**
+ * `InvalidDeadline`: the deadline is invalid.
+ */
+export class InvalidDeadlineError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "INVALID_DEADLINE",
+      "InvalidDeadline",
+      "the deadline is invalid",
+      cause,
+    );
+    this.name = "InvalidDeadlineError";
+  }
+}
+
+/**
+ * `LenderIsNotCreditStrategy`: the lender is not a credit strategy.
+ */
+export class LenderIsNotCreditStrategyError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "LENDER_IS_NOT_CREDIT_STRATEGY",
+      "LenderIsNotCreditStrategy",
+      "the lender is not a credit strategy",
+      cause,
+    );
+    this.name = "LenderIsNotCreditStrategyError";
+  }
+}
+
+/**
+ * `LineHasActiveCreditPositions`: the line still has `numActiveCreditPositions` active credit positions.
+ */
+export class LineHasActiveCreditPositionsError extends LineRevertError {
+  readonly numActiveCreditPositions: bigint;
+
+  constructor(
+    { numActiveCreditPositions }: { numActiveCreditPositions: bigint },
+    cause?: unknown,
+  ) {
+    super(
+      "LINE_HAS_ACTIVE_CREDIT_POSITIONS",
+      "LineHasActiveCreditPositions",
+      `the line still has ${numActiveCreditPositions} active credit positions`,
+      cause,
+    );
+    this.name = "LineHasActiveCreditPositionsError";
+    this.numActiveCreditPositions = numActiveCreditPositions;
+  }
+}
+
+/**
+ * `MaximumFeeExceeded`: the fee exceeds the maximum allowed.
+ */
+export class MaximumFeeExceededError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "MAXIMUM_FEE_EXCEEDED",
+      "MaximumFeeExceeded",
+      "the fee exceeds the maximum allowed",
+      cause,
+    );
+    this.name = "MaximumFeeExceededError";
+  }
+}
+
+/**
+ * `NoLiquidity`: the position does not have enough liquidity for this amount.
+ */
+export class NoLiquidityError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "NO_LIQUIDITY",
+      "NoLiquidity",
+      "the position does not have enough liquidity for this amount",
+      cause,
+    );
+    this.name = "NoLiquidityError";
+  }
+}
+
+/**
+ * `NoQueue`: the repayment queue is empty.
+ */
+export class NoQueueError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super("NO_QUEUE", "NoQueue", "the repayment queue is empty", cause);
+    this.name = "NoQueueError";
+  }
+}
+
+/**
+ * `NoTokenPrice`: the oracle has no price for the token.
+ */
+export class NoTokenPriceError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "NO_TOKEN_PRICE",
+      "NoTokenPrice",
+      "the oracle has no price for the token",
+      cause,
+    );
+    this.name = "NoTokenPriceError";
+  }
+}
+
+/**
+ * `NonceMismatch`: the proposal nonce does not match the line nonce, rebuild the proposal.
+ */
+export class NonceMismatchError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "NONCE_MISMATCH",
+      "NonceMismatch",
+      "the proposal nonce does not match the line nonce, rebuild the proposal",
+      cause,
+    );
+    this.name = "NonceMismatchError";
+  }
+}
+
+/**
+ * `NotActive`: the line is not active.
+ */
+export class NotActiveError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super("NOT_ACTIVE", "NotActive", "the line is not active", cause);
+    this.name = "NotActiveError";
+  }
+}
+
+/**
+ * `NotBorrowing`: the line has no outstanding principal.
+ */
+export class NotBorrowingError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "NOT_BORROWING",
+      "NotBorrowing",
+      "the line has no outstanding principal",
+      cause,
+    );
+    this.name = "NotBorrowingError";
+  }
+}
+
+/**
+ * `NotInsolvent`: `module` is not insolvent.
+ */
+export class NotInsolventError extends LineRevertError {
+  readonly module: Address;
+
+  constructor({ module }: { module: Address }, cause?: unknown) {
+    super("NOT_INSOLVENT", "NotInsolvent", `${module} is not insolvent`, cause);
+    this.name = "NotInsolventError";
+    this.module = module;
+  }
+}
+
+/**
+ * `NotLiquidatable`: the line is not liquidatable.
+ */
+export class NotLiquidatableError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "NOT_LIQUIDATABLE",
+      "NotLiquidatable",
+      "the line is not liquidatable",
+      cause,
+    );
+    this.name = "NotLiquidatableError";
+  }
+}
+
+/**
+ * `NotUserConsent`: the signing wallet is not a party to this mutual-consent call.
+ */
+export class NotUserConsentError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "NOT_USER_CONSENT",
+      "NotUserConsent",
+      "the signing wallet is not a party to this mutual-consent call",
+      cause,
+    );
+    this.name = "NotUserConsentError";
+  }
+}
+
+/**
+ * `PositionExists`: the credit position already exists.
+ */
+export class PositionExistsError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "POSITION_EXISTS",
+      "PositionExists",
+      "the credit position already exists",
+      cause,
+    );
+    this.name = "PositionExistsError";
+  }
+}
+
+/**
+ * `PositionIsClosed`: the credit position is closed or does not exist.
+ */
+export class PositionIsClosedError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "POSITION_IS_CLOSED",
+      "PositionIsClosed",
+      "the credit position is closed or does not exist",
+      cause,
+    );
+    this.name = "PositionIsClosedError";
+  }
+}
+
+/**
+ * `RecoveryNotEnabled`: token recovery is not enabled on this line.
+ */
+export class RecoveryNotEnabledError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "RECOVERY_NOT_ENABLED",
+      "RecoveryNotEnabled",
+      "token recovery is not enabled on this line",
+      cause,
+    );
+    this.name = "RecoveryNotEnabledError";
+  }
+}
+
+/**
+ * `ReentrancyGuardReentrantCall`: the call re-entered the line.
+ */
+export class ReentrancyGuardReentrantCallError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "REENTRANCY_GUARD_REENTRANT_CALL",
+      "ReentrancyGuardReentrantCall",
+      "the call re-entered the line",
+      cause,
+    );
+    this.name = "ReentrancyGuardReentrantCallError";
+  }
+}
+
+/**
+ * `RepayAmountExceedsDebt`: the repay amount exceeds the outstanding debt of `totalAvailable`.
+ */
+export class RepayAmountExceedsDebtError extends LineRevertError {
+  readonly totalAvailable: bigint;
+
+  constructor({ totalAvailable }: { totalAvailable: bigint }, cause?: unknown) {
+    super(
+      "REPAY_AMOUNT_EXCEEDS_DEBT",
+      "RepayAmountExceedsDebt",
+      `the repay amount exceeds the outstanding debt of ${totalAvailable}`,
+      cause,
+    );
+    this.name = "RepayAmountExceedsDebtError";
+    this.totalAvailable = totalAvailable;
+  }
+}
+
+/**
+ * `ReservesOverdrawn`: only `amountAvailable` of `token` is available in reserves.
+ */
+export class ReservesOverdrawnError extends LineRevertError {
+  readonly token: Address;
+  readonly amountAvailable: bigint;
+
+  constructor(
+    { token, amountAvailable }: { token: Address; amountAvailable: bigint },
+    cause?: unknown,
+  ) {
+    super(
+      "RESERVES_OVERDRAWN",
+      "ReservesOverdrawn",
+      `only ${amountAvailable} of ${token} is available in reserves`,
+      cause,
+    );
+    this.name = "ReservesOverdrawnError";
+    this.token = token;
+    this.amountAvailable = amountAvailable;
+  }
+}
+
+/**
+ * `SafeERC20FailedOperation`: a transfer of `token` failed, check the wallet balance and allowance.
+ */
+export class SafeERC20FailedOperationError extends LineRevertError {
+  readonly token: Address;
+
+  constructor({ token }: { token: Address }, cause?: unknown) {
+    super(
+      "SAFE_ERC20_FAILED_OPERATION",
+      "SafeERC20FailedOperation",
+      `a transfer of ${token} failed, check the wallet balance and allowance`,
+      cause,
+    );
+    this.name = "SafeERC20FailedOperationError";
+    this.token = token;
+  }
+}
+
+/**
+ * `SendingEthFailed`: sending ETH failed.
+ */
+export class SendingEthFailedError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "SENDING_ETH_FAILED",
+      "SendingEthFailed",
+      "sending ETH failed",
+      cause,
+    );
+    this.name = "SendingEthFailedError";
+  }
+}
+
+/**
+ * `Unauthorized`: the signing wallet is not authorized for this action.
+ */
+export class UnauthorizedError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "UNAUTHORIZED",
+      "Unauthorized",
+      "the signing wallet is not authorized for this action",
+      cause,
+    );
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * `UnsupportedMutualConsentFunction`: the function does not support mutual consent.
+ */
+export class UnsupportedMutualConsentFunctionError extends LineRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "UNSUPPORTED_MUTUAL_CONSENT_FUNCTION",
+      "UnsupportedMutualConsentFunction",
+      "the function does not support mutual consent",
+      cause,
+    );
+    this.name = "UnsupportedMutualConsentFunctionError";
+  }
+}
+
+const LINE_ERRORS: {
+  [errorName in LineErrorName]: (
+    args: ContractErrorArgs<typeof SecuredLineABI, errorName>,
+    cause: unknown,
+  ) => LineRevertError;
+} = {
+  AlreadyInitialized: (_, cause) => new AlreadyInitializedError(cause),
+  BadModule: ([module], cause) => new BadModuleError({ module }, cause),
+  BadStatus: (_, cause) => new BadStatusError(cause),
+  BorrowFailed: (_, cause) => new BorrowFailedError(cause),
+  CallerAccessDenied: (_, cause) => new CallerAccessDeniedError(cause),
+  CannotAmendLine: (_, cause) => new CannotAmendLineError(cause),
+  CantStepQ: (_, cause) => new CantStepQError(cause),
+  CloseFailedWithPrincipal: (_, cause) =>
+    new CloseFailedWithPrincipalError(cause),
+  DebtOwed: (_, cause) => new DebtOwedError(cause),
+  EthNotSupported: (_, cause) => new EthNotSupportedError(cause),
+  EthSupportDisabled: (_, cause) => new EthSupportDisabledError(cause),
+  InvalidAddress: (_, cause) => new InvalidAddressError(cause),
+  InvalidConsent: (_, cause) => new InvalidConsentError(cause),
+  InvalidDeadline: (_, cause) => new InvalidDeadlineError(cause),
+  LenderIsNotCreditStrategy: (_, cause) =>
+    new LenderIsNotCreditStrategyError(cause),
+  LineHasActiveCreditPositions: ([numActiveCreditPositions], cause) =>
+    new LineHasActiveCreditPositionsError({ numActiveCreditPositions }, cause),
+  MaximumFeeExceeded: (_, cause) => new MaximumFeeExceededError(cause),
+  NoLiquidity: (_, cause) => new NoLiquidityError(cause),
+  NoQueue: (_, cause) => new NoQueueError(cause),
+  NoTokenPrice: (_, cause) => new NoTokenPriceError(cause),
+  NonceMismatch: (_, cause) => new NonceMismatchError(cause),
+  NotActive: (_, cause) => new NotActiveError(cause),
+  NotBorrowing: (_, cause) => new NotBorrowingError(cause),
+  NotInsolvent: ([module], cause) => new NotInsolventError({ module }, cause),
+  NotLiquidatable: (_, cause) => new NotLiquidatableError(cause),
+  NotUserConsent: (_, cause) => new NotUserConsentError(cause),
+  PositionExists: (_, cause) => new PositionExistsError(cause),
+  PositionIsClosed: (_, cause) => new PositionIsClosedError(cause),
+  RecoveryNotEnabled: (_, cause) => new RecoveryNotEnabledError(cause),
+  ReentrancyGuardReentrantCall: (_, cause) =>
+    new ReentrancyGuardReentrantCallError(cause),
+  RepayAmountExceedsDebt: ([totalAvailable], cause) =>
+    new RepayAmountExceedsDebtError({ totalAvailable }, cause),
+  ReservesOverdrawn: ([token, amountAvailable], cause) =>
+    new ReservesOverdrawnError({ token, amountAvailable }, cause),
+  SafeERC20FailedOperation: ([token], cause) =>
+    new SafeERC20FailedOperationError({ token }, cause),
+  SendingEthFailed: (_, cause) => new SendingEthFailedError(cause),
+  Unauthorized: (_, cause) => new UnauthorizedError(cause),
+  UnsupportedMutualConsentFunction: (_, cause) =>
+    new UnsupportedMutualConsentFunctionError(cause),
+};
+
+/**
+ * Name of a custom error declared in the Escrow ABI.
+ */
+export type EscrowErrorName = ContractErrorName<typeof EscrowABI>;
+
+/**
+ * Base class of the errors decoded from an Escrow revert.
+ */
+export class EscrowRevertError extends CreditCoopError {
+  /** Name of the Solidity custom error, e.g. `"UnderCollateralized"`. */
+  readonly errorName: EscrowErrorName;
+
+  constructor(
+    code: string,
+    errorName: EscrowErrorName,
+    message: string,
+    cause?: unknown,
+  ) {
+    super(code, `${errorName}: ${message}`, cause);
+    this.name = "EscrowRevertError";
+    this.errorName = errorName;
+  }
+}
+
+/**
+ * `CallerAccessDenied`: the signing wallet is not allowed to call this escrow
+ * function.
+ */
+export class EscrowCallerAccessDeniedError extends EscrowRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "ESCROW_CALLER_ACCESS_DENIED",
+      "CallerAccessDenied",
+      "the signing wallet is not allowed to call this escrow function",
+      cause,
+    );
+    this.name = "EscrowCallerAccessDeniedError";
+  }
+}
+
+/**
+ * `InvalidCollateral`: the token is not enabled as collateral, or the escrow
+ * holds less of it than requested.
+ */
+export class InvalidCollateralError extends EscrowRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "INVALID_COLLATERAL",
+      "InvalidCollateral",
+      "the token is not enabled as collateral, or the escrow holds less of it than requested",
+      cause,
+    );
+    this.name = "InvalidCollateralError";
+  }
+}
+
+/**
+ * `NotLiquidatable`: the escrow is above its minimum collateral ratio.
+ */
+export class EscrowNotLiquidatableError extends EscrowRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "ESCROW_NOT_LIQUIDATABLE",
+      "NotLiquidatable",
+      "the escrow is above its minimum collateral ratio",
+      cause,
+    );
+    this.name = "EscrowNotLiquidatableError";
+  }
+}
+
+/**
+ * `UnderCollateralized`: the action would leave the escrow below its minimum
+ * collateral ratio.
+ */
+export class UnderCollateralizedError extends EscrowRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "UNDER_COLLATERALIZED",
+      "UnderCollateralized",
+      "the action would leave the escrow below its minimum collateral ratio",
+      cause,
+    );
+    this.name = "UnderCollateralizedError";
+  }
+}
+
+const ESCROW_ERRORS: {
+  [errorName in EscrowErrorName]: (
+    args: ContractErrorArgs<typeof EscrowABI, errorName>,
+    cause: unknown,
+  ) => EscrowRevertError;
+} = {
+  CallerAccessDenied: (_, cause) => new EscrowCallerAccessDeniedError(cause),
+  InvalidCollateral: (_, cause) => new InvalidCollateralError(cause),
+  NotLiquidatable: (_, cause) => new EscrowNotLiquidatableError(cause),
+  UnderCollateralized: (_, cause) => new UnderCollateralizedError(cause),
+};
+
+/**
+ * Name of a custom error declared in the Spigot ABI.
+ */
+export type SpigotErrorName = ContractErrorName<typeof SpigotABI>;
+
+/**
+ * Base class of the errors decoded from a Spigot revert.
+ */
+export class SpigotRevertError extends CreditCoopError {
+  /** Name of the Solidity custom error, e.g. `"NoRevenue"`. */
+  readonly errorName: SpigotErrorName;
+
+  constructor(
+    code: string,
+    errorName: SpigotErrorName,
+    message: string,
+    cause?: unknown,
+  ) {
+    super(code, `${errorName}: ${message}`, cause);
+    this.name = "SpigotRevertError";
+    this.errorName = errorName;
+  }
+}
+
+/**
+ * `BadFunction`: the function cannot be called on the revenue contract through the spigot.
+ */
+export class BadFunctionError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "BAD_FUNCTION",
+      "BadFunction",
+      "the function cannot be called on the revenue contract through the spigot",
+      cause,
+    );
+    this.name = "BadFunctionError";
+  }
+}
+
+/**
+ * `BadSetting`: the revenue contract setting is invalid.
+ */
+export class BadSettingError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "BAD_SETTING",
+      "BadSetting",
+      "the revenue contract setting is invalid",
+      cause,
+    );
+    this.name = "BadSettingError";
+  }
+}
+
+/**
+ * `CallerAccessDenied`: the signing wallet is not allowed to call this spigot function.
+ */
+export class SpigotCallerAccessDeniedError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "SPIGOT_CALLER_ACCESS_DENIED",
+      "CallerAccessDenied",
+      "the signing wallet is not allowed to call this spigot function",
+      cause,
+    );
+    this.name = "SpigotCallerAccessDeniedError";
+  }
+}
+
+/**
+ * `ClaimFailed`: the claim function of the revenue contract failed.
+ */
+export class ClaimFailedError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "CLAIM_FAILED",
+      "ClaimFailed",
+      "the claim function of the revenue contract failed",
+      cause,
+    );
+    this.name = "ClaimFailedError";
+  }
+}
+
+/**
+ * `InvalidRevenueContract`: the address is not a valid revenue contract for this spigot.
+ */
+export class InvalidRevenueContractError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "INVALID_REVENUE_CONTRACT",
+      "InvalidRevenueContract",
+      "the address is not a valid revenue contract for this spigot",
+      cause,
+    );
+    this.name = "InvalidRevenueContractError";
+  }
+}
+
+/**
+ * `NoRevenue`: the revenue contract has no revenue to claim.
+ */
+export class NoRevenueError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "NO_REVENUE",
+      "NoRevenue",
+      "the revenue contract has no revenue to claim",
+      cause,
+    );
+    this.name = "NoRevenueError";
+  }
+}
+
+/**
+ * `OperatorFnCallFailed`: the operator call to the revenue contract failed.
+ */
+export class OperatorFnCallFailedError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "OPERATOR_FN_CALL_FAILED",
+      "OperatorFnCallFailed",
+      "the operator call to the revenue contract failed",
+      cause,
+    );
+    this.name = "OperatorFnCallFailedError";
+  }
+}
+
+/**
+ * `OperatorFnNotValid`: the function cannot be called by the operator.
+ */
+export class OperatorFnNotValidError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "OPERATOR_FN_NOT_VALID",
+      "OperatorFnNotValid",
+      "the function cannot be called by the operator",
+      cause,
+    );
+    this.name = "OperatorFnNotValidError";
+  }
+}
+
+/**
+ * `OperatorFnNotWhitelisted`: the function is not whitelisted for the operator.
+ */
+export class OperatorFnNotWhitelistedError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "OPERATOR_FN_NOT_WHITELISTED",
+      "OperatorFnNotWhitelisted",
+      "the function is not whitelisted for the operator",
+      cause,
+    );
+    this.name = "OperatorFnNotWhitelistedError";
+  }
+}
+
+/**
+ * `UnclaimedRevenue`: the revenue contract still holds unclaimed revenue.
+ */
+export class UnclaimedRevenueError extends SpigotRevertError {
+  constructor(cause?: unknown) {
+    super(
+      "UNCLAIMED_REVENUE",
+      "UnclaimedRevenue",
+      "the revenue contract still holds unclaimed revenue",
+      cause,
+    );
+    this.name = "UnclaimedRevenueError";
+  }
+}
+
+const SPIGOT_ERRORS: {
+  [errorName in SpigotErrorName]: (
+    args: ContractErrorArgs<typeof SpigotABI, errorName>,
+    cause: unknown,
+  ) => SpigotRevertError;
+} = {
+  BadFunction: (_, cause) => new BadFunctionError(cause),
+  BadSetting: (_, cause) => new BadSettingError(cause),
+  CallerAccessDenied: (_, cause) => new SpigotCallerAccessDeniedError(cause),
+  ClaimFailed: (_, cause) => new ClaimFailedError(cause),
+  InvalidRevenueContract: (_, cause) => new InvalidRevenueContractError(cause),
+  NoRevenue: (_, cause) => new NoRevenueError(cause),
+  OperatorFnCallFailed: (_, cause) => new OperatorFnCallFailedError(cause),
+  OperatorFnNotValid: (_, cause) => new OperatorFnNotValidError(cause),
+  OperatorFnNotWhitelisted: (_, cause) =>
+    new OperatorFnNotWhitelistedError(cause),
+  UnclaimedRevenue: (_, cause) => new UnclaimedRevenueError(cause),
+};
+
+type RevertDecoders = Readonly<
+  Record<string, (args: never, cause: unknown) => Error>
+>;
+
+/**
+ * Revert decoders by the ABI of the called contract. Contracts declare
+ * errors of the same name, e.g. `CallerAccessDenied`, so a revert can only
+ * be decoded knowing which contract raised it.
+ */
+const CONTRACT_ERRORS = new Map<Abi, RevertDecoders>([
+  [SecuredLineABI, LINE_ERRORS],
+  [EscrowABI, ESCROW_ERRORS],
+  [SpigotABI, SPIGOT_ERRORS],
+]);
+
+/**
+ * Converts an error thrown while calling a SecuredLine, or one of its
+ * modules, into the matching revert error subclass: `LineRevertError` for
+ * the line, `EscrowRevertError` for the escrow and `SpigotRevertError` for
+ * the spigot. Errors that are not a
+ * decodable revert of the called contract are returned unchanged.
+ *
+ * @param error  Error thrown by viem, typically a `ContractFunctionExecutionError`.
+ * @param abi    ABI of the called contract. Defaults to the SecuredLine ABI.
+ */
+export function toLineError(
+  error: unknown,
+  abi: Abi = SecuredLineABI,
+): unknown {
+  if (!(error instanceof BaseError)) {
+    return error;
+  }
+
+  const reverted = error.walk(
+    (cause) => cause instanceof ContractFunctionRevertedError,
+  );
+  if (!(reverted instanceof ContractFunctionRevertedError) || !reverted.data) {
+    return error;
+  }
+
+  const decoders = CONTRACT_ERRORS.get(abi);
+  const { errorName, args = [] } = reverted.data;
+  if (!decoders || !Object.prototype.hasOwnProperty.call(decoders, errorName)) {
+    return error;
+  }
+
+  const decode = decoders[errorName] as (
+    args: readonly unknown[],
+    cause: unknown,
+  ) => Error;
+  return decode(args, error);
+}
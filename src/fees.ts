@@ -0,0 +1,134 @@
+/**
+ * EIP-1559 fee strategies for line transactions. A strategy is resolved into
+ * `maxFeePerGas` and `maxPriorityFeePerGas` right before a transaction is
+ * sent, so fees track the chain at that moment.
+ *
+ * @example
+ * ```ts
+ * // Pay up to 3× the current base fee
+ * await line.borrow({
+ *   positionId,
+ *   amount,
+ *   fees: { type: "baseFeeMultiplier", multiplier: 3 },
+ * });
+ * ```
+ */
+
+import { type PublicClient, Eip1559FeesNotSupportedError } from "viem";
+
+/**
+ * How to price a transaction.
+ *
+ * - `fixed` — use the given fees as-is.
+ * - `baseFeeMultiplier` — `multiplier` × the latest base fee, plus the
+ *   priority fee (estimated by the node unless given).
+ * - `feeHistory` — the median of the `percentile`th priority fee paid over
+ *   the last `blockCount` blocks (`eth_feeHistory`), on top of
+ *   `baseFeeMultiplier` × the next block's base fee.
+ */
+export type FeeStrategy =
+  | {
+      type: "fixed";
+      maxFeePerGas: bigint;
+      maxPriorityFeePerGas: bigint;
+    }
+  | {
+      type: "baseFeeMultiplier";
+      multiplier: number;
+      maxPriorityFeePerGas?: bigint;
+    }
+  | {
+      type: "feeHistory";
+      /** Reward percentile, `0`–`100`. */
+      percentile: number;
+      /** Blocks to sample. Defaults to `20`. */
+      blockCount?: number;
+      /** Headroom over the next base fee. Defaults to `2`. */
+      baseFeeMultiplier?: number;
+    };
+
+/**
+ * EIP-1559 fee fields of a transaction.
+ */
+export type Fees = {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+/**
+ * Resolves a fee strategy against the current state of the chain.
+ *
+ * @throws `Eip1559FeesNotSupportedError` — If the chain has no base fee.
+ */
+export async function resolveFees(
+  client: PublicClient,
+  strategy: FeeStrategy,
+): Promise<Fees> {
+  switch (strategy.type) {
+    case "fixed":
+      return {
+        maxFeePerGas: strategy.maxFeePerGas,
+        maxPriorityFeePerGas: strategy.maxPriorityFeePerGas,
+      };
+
+    case "baseFeeMultiplier": {
+      const [{ baseFeePerGas }, maxPriorityFeePerGas] = await Promise.all([
+        client.getBlock(),
+        strategy.maxPriorityFeePerGas ?? client.estimateMaxPriorityFeePerGas(),
+      ]);
+      if (baseFeePerGas === null) {
+        throw new Eip1559FeesNotSupportedError();
+      }
+      return {
+        maxFeePerGas:
+          multiply(baseFeePerGas, strategy.multiplier) + maxPriorityFeePerGas,
+        maxPriorityFeePerGas,
+      };
+    }
+
+    case "feeHistory": {
+      const { baseFeePerGas, reward = [] } = await client.getFeeHistory({
+        blockCount: strategy.blockCount ?? 20,
+        rewardPercentiles: [strategy.percentile],
+      });
+      // The last entry is the base fee of the next block.
+      const nextBaseFee = baseFeePerGas[baseFeePerGas.length - 1];
+      if (!nextBaseFee) {
+        throw new Eip1559FeesNotSupportedError();
+      }
+      const maxPriorityFeePerGas = median(reward.map(([fee]) => fee ?? 0n));
+      return {
+        maxFeePerGas:
+          multiply(nextBaseFee, strategy.baseFeeMultiplier ?? 2) +
+          maxPriorityFeePerGas,
+        maxPriorityFeePerGas,
+      };
+    }
+  }
+}
+
+/**
+ * Raises `fees` to the minimum a node accepts for a replacement of a
+ * transaction priced at `previous` (12.5% more, above geth's 10% rule).
+ */
+export function bumpFees(previous: Fees, fees?: Fees): Fees {
+  const bump = (value: bigint) => (value * 1125n + 999n) / 1000n;
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+  return {
+    maxFeePerGas: max(bump(previous.maxFeePerGas), fees?.maxFeePerGas ?? 0n),
+    maxPriorityFeePerGas: max(
+      bump(previous.maxPriorityFeePerGas),
+      fees?.maxPriorityFeePerGas ?? 0n,
+    ),
+  };
+}
+
+function multiply(value: bigint, multiplier: number): bigint {
+  return (value * BigInt(Math.round(multiplier * 1000))) / 1000n;
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)] ?? 0n;
+}
@@ -25,95 +25,699 @@
 import {
   type Hex,
   type GetContractReturnType,
-  type WalletClient,
   type Address,
   getContract,
-  createWalletClient,
-  http,
   createPublicClient,
   type PublicClient,
+  type TransactionReceipt,
+  type ContractEventName,
+  type ParseEventLogsReturnType,
+  isAddressEqual,
+  parseEventLogs,
+  erc721Abi,
+  formatUnits,
+  parseUnits,
+  zeroAddress,
 } from "viem";
-import * as Chains from "viem/chains";
 
-import { privateKeyToAccount } from "viem/accounts";
+import {
+  type Amount,
+  type TokenAmount,
+  type TokenMetadata,
+  type WithTokenAmounts,
+  toRawAmount,
+  toTokenAmount,
+  withTokenAmounts,
+} from "./amounts";
+import { type BlockOptions, findBlockNumberByTimestamp } from "./blocks";
 import SecuredLineABI from "./contracts/abis/SecuredLine";
+import { type ApproveMode, ERC20 } from "./ERC20";
+import { Escrow } from "./Escrow";
+import {
+  MissingQuoteProviderError,
+  MissingRoleError,
+  NoEscrowError,
+  NoMatchingProposalError,
+  NoSignerError,
+  NoSpigotError,
+  WithdrawExceedsAvailableError,
+} from "./errors";
+import { type InterestProjection, projectInterest } from "./Interest";
+import {
+  type LineEvent,
+  type LineEventFilter,
+  type LineEventHandlers,
+  type LineEventType,
+  type WatchOptions,
+  getLineEvents,
+  watchLineEvents,
+} from "./LineEvents";
+import {
+  type LineHealth,
+  type PositionDeadline,
+  checkLineHealth,
+  getPositionDeadlines,
+} from "./LineHealth";
+import {
+  type LineAction,
+  type LineRoles,
+  getAllowedRoles,
+  hasLineRole,
+  readLineRoles,
+} from "./LineRoles";
+import {
+  type LineWriteCall,
+  type SimulationResult,
+  type TokenApproval,
+  simulateLineWrite,
+} from "./LineSimulation";
+import {
+  type CreditPosition,
+  type LineFees,
+  type LineSnapshot,
+  type LineStatus,
+  readLineState,
+} from "./LineState";
+import { type PendingNonce, getNonceManager } from "./nonces";
+import {
+  type PayoffQuote,
+  type PayoffStep,
+  type RepaymentSplit,
+  quotePayoff,
+  splitRepayment,
+} from "./Payoff";
+import { type PositionRates, toPositionRates } from "./rates";
+import { Spigot } from "./Spigot";
+import {
+  type NoSignerOptions,
+  type SignerClient,
+  type SignerOptions,
+  createSignerConnector,
+} from "./signer";
+import {
+  type ChainId,
+  type EndpointOptions,
+  createTransport,
+  resolveChain,
+} from "./transport";
+import {
+  type AddCreditTerms,
+  type CreditProposal,
+  type RefinanceCreditTerms,
+  computeProposalId,
+  encodeAddCreditProposal,
+  encodeRefinanceCreditProposal,
+} from "./MutualConsent";
+import {
+  type PendingTransaction,
+  type TransactionOptions,
+  submitContractWrite,
+} from "./transactions";
+import {
+  type RevenueBalance,
+  type RevenueOptions,
+  quoteRevenueTrade,
+  readSpigotRevenue,
+} from "./Revenue";
 
-type ChainId = keyof typeof Chains;
+export {
+  type DerivationPath,
+  type Keystore,
+  accountFromKeystore,
+  accountFromMnemonic,
+} from "./accounts";
+export {
+  type Amount,
+  type TokenAmount,
+  type TokenMetadata,
+  type WithTokenAmounts,
+  toRawAmount,
+  toTokenAmount,
+  withTokenAmounts,
+} from "./amounts";
+export { type BlockOptions, findBlockNumberByTimestamp } from "./blocks";
+export { type ApproveMode, ERC20 } from "./ERC20";
+export { type CollateralDeposit, Escrow } from "./Escrow";
+export * from "./errors";
+export { type FeeStrategy, type Fees, bumpFees, resolveFees } from "./fees";
+export {
+  type InterestInputs,
+  type InterestProjection,
+  BASE_DENOMINATOR,
+  ONE_YEAR,
+  calculateInterestOwed,
+  projectInterest,
+} from "./Interest";
+export {
+  type LineEvent,
+  type LineEventFilter,
+  type LineEventHandlers,
+  type LineEventType,
+  type WatchCursor,
+  type WatchOptions,
+  getLineEvents,
+  watchLineEvents,
+} from "./LineEvents";
+export {
+  type LineHealth,
+  type PositionDeadline,
+  checkLineHealth,
+  getPositionDeadlines,
+} from "./LineHealth";
+export {
+  type LineAction,
+  type LineRole,
+  type LineRoles,
+  LINE_PERMISSIONS,
+  canCall,
+  getAllowedRoles,
+  hasLineRole,
+  readLineRoles,
+} from "./LineRoles";
+export {
+  type BalanceDelta,
+  type LineWriteCall,
+  type PositionDelta,
+  type SimulationResult,
+  type TokenApproval,
+  simulateLineWrite,
+} from "./LineSimulation";
+export {
+  type CreditPosition,
+  type LineFees,
+  type LineSnapshot,
+  type PositionSnapshot,
+  LineStatus,
+  MULTICALL3_ADDRESS,
+  readLineState,
+} from "./LineState";
+export {
+  type AddCreditTerms,
+  type CreditProposal,
+  type RefinanceCreditTerms,
+  computeProposalId,
+  encodeAddCreditProposal,
+  encodeRefinanceCreditProposal,
+} from "./MutualConsent";
+export { type PendingNonce, NonceManager, getNonceManager } from "./nonces";
+export {
+  type PayoffQuote,
+  type PayoffStep,
+  type RepaymentSplit,
+  quotePayoff,
+  splitRepayment,
+} from "./Payoff";
+export {
+  type PositionRates,
+  type Rate,
+  DEFAULT_COMPOUNDING_PERIODS,
+  aprToApy,
+  aprToBps,
+  aprToRate,
+  apyToApr,
+  apyToRate,
+  bpsToApr,
+  bpsToRate,
+  rateToBps,
+  toPositionRates,
+  toRate,
+} from "./rates";
+export {
+  type QuoteProvider,
+  type QuoteRequest,
+  type RevenueBalance,
+  type RevenueOptions,
+  type SwapQuote,
+  createStubQuoteProvider,
+  quoteRevenueTrade,
+  readSpigotRevenue,
+} from "./Revenue";
+export { type SignerOptions } from "./signer";
+export {
+  type RevenueContract,
+  type SpigotBalance,
+  type SpigotResult,
+  Spigot,
+} from "./Spigot";
+export {
+  type PendingTransaction,
+  type TransactionHandle,
+  type TransactionOptions,
+} from "./transactions";
+export { type ChainId, type EndpointOptions } from "./transport";
 
 type SecuredLineInstance = GetContractReturnType<
   typeof SecuredLineABI,
-  { wallet: WalletClient; public: PublicClient },
+  PublicClient,
   Hex
 >;
 
-export class SecuredLine {
-  private contract: SecuredLineInstance;
-  private walletAddress: Address;
-  private walletClient: WalletClient;
-  private publicClient: PublicClient;
+type LineEventName = ContractEventName<typeof SecuredLineABI>;
+
+/**
+ * A mined line transaction: the receipt together with the decoded line events
+ * of interest that were emitted in it.
+ */
+export type LineTransactionResult<eventName extends LineEventName> = {
+  receipt: TransactionReceipt;
+  events: ParseEventLogsReturnType<typeof SecuredLineABI, eventName[], true>;
+};
+
+const REPAYMENT_EVENTS = [
+  "RepayPrincipal",
+  "RepayInterest",
+  "CloseCreditPosition",
+] as const;
+
+/**
+ * Result of a repayment or close transaction, carrying the
+ * `RepayPrincipal`, `RepayInterest` and `CloseCreditPosition` events.
+ */
+export type RepaymentResult = LineTransactionResult<
+  (typeof REPAYMENT_EVENTS)[number]
+>;
+
+const WITHDRAWAL_EVENTS = [
+  "WithdrawDeposit",
+  "WithdrawProfit",
+  "EarlyWithdrawalFee",
+] as const;
+
+/**
+ * Result of a lender withdrawal or fee claim, carrying the `WithdrawDeposit`,
+ * `WithdrawProfit` and `EarlyWithdrawalFee` events.
+ */
+export type WithdrawalResult = LineTransactionResult<
+  (typeof WITHDRAWAL_EVENTS)[number]
+>;
+
+const CONSENT_EVENTS = [
+  "MutualConsentRegistered",
+  "MutualConsentAccepted",
+  "MutualConsentRevoked",
+  "MutualConsentRevokedAll",
+  "AddCredit",
+  "IncreaseCredit",
+  "RefinanceCredit",
+  "SetRates",
+  "SetDeadline",
+] as const;
+
+/**
+ * Result of a mutual-consent transaction, carrying the `MutualConsent*`
+ * events and, once a proposal is accepted, the `AddCredit`,
+ * `IncreaseCredit`, `RefinanceCredit`, `SetRates` and `SetDeadline` events.
+ */
+export type ConsentResult = LineTransactionResult<
+  (typeof CONSENT_EVENTS)[number]
+>;
+
+const REVENUE_EVENTS = [
+  "SpigotPayment",
+  "TradeSpigotTokens",
+  "ReservesChanged",
+  "RepayPrincipal",
+  "RepayInterest",
+] as const;
+
+/**
+ * Result of a spigot revenue claim, carrying the `SpigotPayment`,
+ * `TradeSpigotTokens`, `ReservesChanged` and repayment events.
+ */
+export type RevenueResult = LineTransactionResult<
+  (typeof REVENUE_EVENTS)[number]
+>;
+
+const ADMIN_EVENTS = [
+  "UpdateAdmin",
+  "UpdateBorrower",
+  "ServicerApproved",
+  "SetFee",
+  "OtcSwapServicerUpdated",
+  "UpdateStatus",
+] as const;
+
+/**
+ * Result of an admin or servicer transaction, carrying the `UpdateAdmin`,
+ * `UpdateBorrower`, `ServicerApproved`, `SetFee` (one per fee),
+ * `OtcSwapServicerUpdated` and `UpdateStatus` events.
+ */
+export type AdminResult = LineTransactionResult<(typeof ADMIN_EVENTS)[number]>;
+
+/**
+ * Options of a read: the block to read at and, with `format: true`, amounts
+ * returned as `TokenAmount`s of the position's credit token instead of
+ * bigints.
+ */
+export type ReadOptions = BlockOptions & { format?: boolean };
+
+const POSITION_AMOUNTS = [
+  "deposit",
+  "principal",
+  "interestAccrued",
+  "interestRepaid",
+] as const;
+
+/**
+ * A credit position with its amounts as `TokenAmount`s.
+ */
+export type FormattedPosition = WithTokenAmounts<
+  CreditPosition,
+  (typeof POSITION_AMOUNTS)[number]
+>;
+
+/**
+ * Assets of a position available for borrowing or withdrawal, and interest
+ * its lender can claim, as returned by `getPositionLiquidity`.
+ */
+export type PositionLiquidity = {
+  availableAssets: bigint;
+  claimableInterest: bigint;
+};
+
+const LIQUIDITY_AMOUNTS = ["availableAssets", "claimableInterest"] as const;
+
+/**
+ * Seconds past the latest block that `repayAndClose` and `closePosition`
+ * project interest to when checking the wallet's balance and allowance.
+ * Interest accrues until the close is mined, after any approval sent ahead
+ * of it, so the debt as of the latest block would leave an `"exact"`
+ * approval short. The surplus only remains as allowance.
+ */
+const PAYOFF_BUFFER_SECONDS = 900n;
+
+/**
+ * Breakdown of what a lender would receive from `withdraw`, as returned by
+ * `previewWithdraw`.
+ */
+export type WithdrawalPreview = {
+  /** Portion of the amount taken from repaid interest. */
+  profit: bigint;
+  /** Portion of the amount taken from the undrawn deposit. */
+  deposit: bigint;
+  /** Early withdrawal fee charged on the deposit portion. */
+  fee: bigint;
+  /** Amount the lender actually receives, `profit + deposit - fee`. */
+  received: bigint;
+  /** Whether the withdrawal happens before the position's deadline. */
+  isEarly: boolean;
+};
+
+const WITHDRAWAL_AMOUNTS = ["profit", "deposit", "fee", "received"] as const;
+
+/**
+ * A credit position with its rates and the interest it is projected to owe
+ * at a timestamp, as returned by `getPositionWithProjectedInterest`.
+ */
+export type ProjectedPosition = CreditPosition & {
+  /** Drawn rate in bps, charged on principal. */
+  dRate: bigint;
+  /** Facility rate in bps, charged on the undrawn deposit. */
+  fRate: bigint;
+  /** `dRate` and `fRate` in bps, APR and APY. */
+  rates: PositionRates;
+  /** Timestamp interest was last accrued at on-chain. */
+  lastAccrued: bigint;
+  /** Interest projected from the on-chain state to the requested time. */
+  projected: InterestProjection;
+};
+
+type LineWriteMethod =
+  | "borrow"
+  | "repay"
+  | "repayFromReserves"
+  | "repayAndClose"
+  | "closePosition"
+  | "withdraw"
+  | "claimEarlyWithdrawalFees"
+  | "submitProposal"
+  | "acceptProposal"
+  | "revokeProposal"
+  | "incrementNonce"
+  | "clearProposals"
+  | "claimAndRepay"
+  | "claimAndTrade";
+
+/**
+ * What a write's call builder is given: the signing address, and the
+ * pre-flight payment check, which a dry run records as an approval to
+ * simulate instead of sending one.
+ */
+type WriteContext = {
+  account: Address;
+  ensureCanPay: (
+    positionId: bigint,
+    amount: bigint,
+    approve: ApproveMode,
+  ) => Promise<void>;
+};
+
+/**
+ * A line write before it is sent or simulated: the action the signer needs
+ * a role for, the call, which may be built from a `WriteContext` after
+ * pre-flight reads, and how a receipt turns into the write's result.
+ */
+type LineWrite<result> = {
+  action: LineAction;
+  /** Position the action is on, whose token the lender role requires. */
+  positionId?: bigint;
+  call:
+    | LineWriteCall
+    | ((context: WriteContext) => LineWriteCall | Promise<LineWriteCall>);
+  onMined: (receipt: TransactionReceipt) => result | Promise<result>;
+};
+
+/**
+ * Dry-run counterparts of the write methods of `SecuredLine`. Each takes the
+ * same parameters and runs the same pre-flight checks, but simulates the
+ * transaction instead of sending it. Approvals the write would send first are
+ * simulated ahead of it rather than sent.
+ */
+export type LineSimulator = {
+  [method in LineWriteMethod]: (
+    ...args: Parameters<SecuredLine[method]>
+  ) => Promise<SimulationResult>;
+};
+
+type AdminWriteMethod =
+  | "updateAdmin"
+  | "updateBorrower"
+  | "setServicer"
+  | "setFees"
+  | "setOtcSwapServicer"
+  | "updateAllowedOTCPriceImpact"
+  | "activateLine";
+
+/**
+ * Dry-run counterparts of the write methods of `SecuredLineAdmin`, like
+ * `LineSimulator`.
+ */
+export type AdminSimulator = LineSimulator & {
+  [method in AdminWriteMethod]: (
+    ...args: Parameters<SecuredLineAdmin[method]>
+  ) => Promise<SimulationResult>;
+};
+
+/**
+ * Connection parameters shared by every `SecuredLine`: reads and writes go
+ * through the endpoint described by `EndpointOptions`.
+ */
+type ConnectionParameters = {
+  address: Hex;
+  chainId: ChainId;
+  transactionOptions?: TransactionOptions;
+  revenue?: RevenueOptions;
+} & EndpointOptions;
+
+/**
+ * Parameters accepted by the `SecuredLine` constructor. Omitting the signer
+ * options creates a read-only line.
+ */
+export type SecuredLineParameters = ConnectionParameters &
+  (SignerOptions | NoSignerOptions);
+
+/**
+ * Parameters of a `SecuredLine` that can send transactions.
+ */
+export type SignerParameters = ConnectionParameters & SignerOptions;
+
+/**
+ * A `SecuredLine` constructed without a signer. Only read methods are
+ * available.
+ */
+export type ReadOnlySecuredLine = SecuredLine<ConnectionParameters>;
+
+export class SecuredLine<
+  params extends SecuredLineParameters = SignerParameters,
+> {
+  /**
+   * `true` when the line was constructed without a signer, in which case
+   * every write method throws `NoSignerError`.
+   */
+  readonly isReadOnly: params extends SignerParameters ? false : true;
+
+  protected contract: SecuredLineInstance;
+  protected publicClient: PublicClient;
+  private connectSigner: (() => Promise<SignerClient>) | undefined;
+  private signer: Promise<{ walletClient: SignerClient }> | undefined;
+  /** Read-only `ERC20` helpers by token address, caching their metadata. */
+  private tokens = new Map<Address, ERC20>();
+  private transactionOptions: TransactionOptions;
+  private revenue: RevenueOptions;
 
   /**
    * Creates a new `SecuredLine` wrapper.
    *
-   * @param params.address    Deployed SecuredLine contract address.
-   * @param params.privateKey Hex-encoded ECDSA private key that will become
-   *                          `msg.sender` for all write actions.
-   * @param params.chainId    Key of `viem/chains`, e.g. `"mainnet"`, `"base"`.
-   * @param params.rpcUrl     HTTPS or WebSocket endpoint compatible with
-   *                          `eth_*` & `debug_*` RPC methods.
+   * @param params.address      Deployed SecuredLine contract address.
+   * @param params.chainId      Key of `viem/chains`, e.g. `"mainnet"`, `"base"`.
+   * @param params.rpcUrl       HTTPS or WebSocket endpoint compatible with
+   *                            `eth_*` & `debug_*` RPC methods, or a list of
+   *                            endpoints to fall back through.
+   * @param params.rank         With several `rpcUrl`s, rank them by latency
+   *                            instead of using the list order.
+   * @param params.transport    viem `Transport` to use in place of `rpcUrl`.
+   * @param params.publicClient Existing viem `PublicClient` to use in place of
+   *                            `rpcUrl`.
+   * @param params.privateKey   Hex-encoded ECDSA private key that will become
+   *                            `msg.sender` for all write actions.
+   * @param params.account      Any viem `Account`, in place of `privateKey`.
+   * @param params.walletClient Existing viem `WalletClient`, in place of
+   *                            `privateKey`.
+   * @param params.provider     Injected EIP-1193 provider (e.g. a browser
+   *                            wallet), in place of `privateKey`.
+   * @param params.transactionOptions
+   *                            Default confirmations, timeout and fee
+   *                            strategy of every write. Each write can
+   *                            override them.
+   * @param params.revenue      Default quote provider and allowed price
+   *                            impact of `claimAndRepay` and `claimAndTrade`.
+   *
+   * When no signer is given the line is read-only.
+   *
+   * @throws `UnsupportedChainError` — If `chainId` does not exist in
+   *         `viem/chains`.
+   *
+   * @example
+   * ```ts
+   * // Dashboards and risk jobs need no key
+   * const line = new SecuredLine({ address, chainId: 'base', rpcUrl });
+   * const ids = await line.getOpenPositionIds();
+   *
+   * // Browser dapps sign through the injected wallet
+   * const dappLine = new SecuredLine({
+   *   address,
+   *   chainId: 'base',
+   *   rpcUrl,
+   *   provider: window.ethereum,
+   * });
    *
-   * @throws If `chainId` does not exist in `viem/chains`.
+   * // Fail over between providers
+   * const resilientLine = new SecuredLine({
+   *   address,
+   *   chainId: 'base',
+   *   rpcUrl: ['wss://base-mainnet.g.alchemy.com/v2/<API_KEY>', 'https://mainnet.base.org'],
+   *   rank: true,
+   *   privateKey,
+   * });
+   * ```
    */
-  constructor({
-    address,
-    privateKey,
-    chainId,
-    rpcUrl,
-  }: {
-    address: Hex;
-    privateKey: Hex;
-    chainId: ChainId;
-    rpcUrl: string;
-  }) {
-    const chain = Chains[chainId];
-
-    const account = privateKeyToAccount(privateKey);
-    this.walletAddress = account.address;
-    this.walletClient = createWalletClient({
-      account,
-      chain,
-      transport: http(chain.rpcUrls.default.http[0]),
-    });
+  constructor(params: params) {
+    const chain = resolveChain(params.chainId);
+    const transport = createTransport(params);
 
-    this.publicClient = createPublicClient({
-      chain,
-      transport: http(rpcUrl),
-    }) as PublicClient;
+    this.connectSigner = createSignerConnector(params, { chain, transport });
+    this.isReadOnly = !this.connectSigner as typeof this.isReadOnly;
+    this.transactionOptions = params.transactionOptions ?? {};
+    this.revenue = params.revenue ?? {};
+
+    this.publicClient =
+      params.publicClient ??
+      (createPublicClient({ chain, transport }) as PublicClient);
 
     this.contract = getContract({
-      address,
+      address: params.address,
       abi: SecuredLineABI,
-      client: {
-        wallet: this.walletClient,
-        public: this.publicClient,
-      },
+      client: this.publicClient,
     });
   }
 
+  /**
+   * Dry-run counterparts of every write method, e.g. `simulate.borrow(…)`.
+   *
+   * A simulation never broadcasts anything. It resolves to a
+   * `SimulationResult` telling whether the write would succeed, the decoded
+   * revert if not, the gas it would use and how it would change open
+   * positions and the signer's credit token balances.
+   *
+   * Pre-flight checks throw as they do for the write itself, e.g.
+   * `InsufficientBalanceError` from `simulate.repay`.
+   *
+   * @example
+   * ```ts
+   * const simulation = await line.simulate.borrow({ positionId, amount });
+   * if (simulation.success === false) {
+   *   console.warn(simulation.error); // e.g. NoLiquidityError
+   * } else {
+   *   console.log(simulation.gas, simulation.deltas?.positions);
+   * }
+   * ```
+   */
+  get simulate(): LineSimulator {
+    const { writes } = this;
+    return {
+      borrow: (params) => this.simulateWrite(writes.borrow(params)),
+      repay: (params) => this.simulateWrite(writes.repay(params)),
+      repayFromReserves: (params) =>
+        this.simulateWrite(writes.repayFromReserves(params)),
+      repayAndClose: (params) =>
+        this.simulateWrite(writes.repayAndClose(params)),
+      closePosition: (positionId, params) =>
+        this.simulateWrite(writes.closePosition(positionId, params)),
+      withdraw: (params) => this.simulateWrite(writes.withdraw(params)),
+      claimEarlyWithdrawalFees: (positionId) =>
+        this.simulateWrite(writes.claimEarlyWithdrawalFees(positionId)),
+      submitProposal: (proposal) =>
+        this.simulateWrite(writes.submitProposal(proposal)),
+      acceptProposal: (proposal) =>
+        this.simulateWrite(writes.acceptProposal(proposal)),
+      revokeProposal: (proposal) =>
+        this.simulateWrite(writes.revokeProposal(proposal)),
+      incrementNonce: () => this.simulateWrite(writes.incrementNonce()),
+      clearProposals: () => this.simulateWrite(writes.clearProposals()),
+      claimAndRepay: (params) =>
+        this.simulateWrite(writes.claimAndRepay(params)),
+      claimAndTrade: (params) =>
+        this.simulateWrite(writes.claimAndTrade(params)),
+    };
+  }
+
   /**
    * Draws down credit from the line.
    *
    * Wraps the Solidity call `borrow(uint256 id, uint256 amount, address to)`.
    *
    * @param params.positionId  Unique position/tranche identifier on the line.
-   * @param params.amount      Principal to draw **in smallest token units**.
+   * @param params.amount      Principal to draw **in smallest token units**,
+   *                           or as a `TokenAmount`.
    * @param params.to          Optional recipient. Defaults to the wallet
    *                           address used for signing.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`.
    *
-   * @returns `Promise<Hex>` — the transaction hash **once the transaction is
-   *          confirmed in the forked/local chain**.
+   * @returns `PendingTransaction<Hex>` — the transaction hash **once the
+   *          transaction is confirmed in the forked/local chain**. Like every
+   *          write, the returned promise is also a `TransactionHandle` whose
+   *          `speedUp` and `cancel` replace the transaction while it is
+   *          pending.
    *
-   * @throws `Error` — If the transaction reverts
+   * @throws `MissingRoleError` — If the signer is neither
+   *         borrower nor servicer
+   * @throws `LineRevertError` — If the transaction reverts
+   * @throws `TransactionRevertedError` — If it is mined but reverts, with the
+   *         decoded `LineRevertError` as its `cause`
+   * @throws `TransactionTimeoutError` — If it is not mined within `timeout`
+   * @throws `TransactionReplacedError` — If it is cancelled or replaced by
+   *         another transaction
    *
    * @example
    * ```ts
@@ -122,92 +726,2047 @@ export class SecuredLine {
    *   amount: 10_000_000_000n, // 10,000 USDC (6 decimals)
    *   to: '0x1234…dead',
    * });
+   *
+   * // Wait for 3 confirmations, pricing at the 60th percentile tip
+   * const tx = line.borrow({
+   *   positionId: 2n,
+   *   amount: 10_000_000_000n,
+   *   confirmations: 3,
+   *   fees: { type: 'feeHistory', percentile: 60 },
+   * });
+   * console.log(await tx.hash);
+   * await tx.speedUp(); // +12.5% fees, same nonce
+   * ```
+   */
+  borrow(
+    this: SecuredLine<SignerParameters>,
+    params: {
+      positionId: bigint;
+      amount: Amount;
+      to?: Hex;
+    } & TransactionOptions,
+  ): PendingTransaction<Hex> {
+    return this.send(this.writes.borrow(params), params);
+  }
+
+  /**
+   * Repays debt by pulling credit tokens from the signing wallet.
+   *
+   * Wraps the Solidity call `depositAndRepay(uint256 amount)`. The amount is
+   * applied to the first position in the repayment queue, interest first and
+   * then principal. Before sending, the wallet's balance and allowance of that
+   * position's credit token are checked.
+   *
+   * @param params.amount   Amount to repay **in smallest token units**, or as
+   *                        a `TokenAmount`.
+   * @param params.approve  Allowance handling, see `ApproveMode`. Defaults to
+   *                        `"none"`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`, also applied to
+   *                         the approval.
+   *
+   * @returns `PendingTransaction<RepaymentResult>` — the receipt and decoded
+   *          repayment events once the transaction is confirmed.
+   *
+   * @throws `InsufficientBalanceError` | `InsufficientAllowanceError` — If the
+   *         wallet cannot pay the amount
+   * @throws `LineRevertError` — If the transaction reverts
+   *
+   * @example
+   * ```ts
+   * const { events } = await line.repay({
+   *   amount: 1_000_000n, // 1 USDC
+   *   approve: "exact",
+   * });
+   * ```
+   */
+  repay(
+    this: SecuredLine<SignerParameters>,
+    params: {
+      amount: Amount;
+      approve?: ApproveMode;
+    } & TransactionOptions,
+  ): PendingTransaction<RepaymentResult> {
+    return this.send(this.writes.repay(params), params);
+  }
+
+  /**
+   * Repays debt using credit tokens already held in the line's reserves
+   * (e.g. proceeds from spigot revenue trades).
+   *
+   * Wraps the Solidity call `useAndRepay(uint256 amount)`.
+   *
+   * @param params.amount  Amount of reserves to apply **in smallest token
+   *                       units**, or as a `TokenAmount`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<RepaymentResult>` — the receipt and decoded
+   *          repayment events once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither
+   *         borrower nor servicer
+   * @throws `LineRevertError` — If the transaction reverts, e.g. with
+   *         `ReservesOverdrawnError`
+   */
+  repayFromReserves(
+    this: SecuredLine<SignerParameters>,
+    params: {
+      amount: Amount;
+    } & TransactionOptions,
+  ): PendingTransaction<RepaymentResult> {
+    return this.send(this.writes.repayFromReserves(params), params);
+  }
+
+  /**
+   * Repays all outstanding principal and interest on the first position in
+   * the repayment queue and closes it.
+   *
+   * Wraps the Solidity call `depositAndClose()`. The amount checked against
+   * the wallet's balance and allowance is the position's payoff quoted 15
+   * minutes after the latest block, so that an `"exact"` approval still
+   * covers the interest accruing until the transaction is mined.
+   *
+   * @param params.approve  Allowance handling, see `ApproveMode`. Defaults to
+   *                        `"none"`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`, also applied to
+   *                         the approval.
+   *
+   * @returns `PendingTransaction<RepaymentResult>` — the receipt and decoded
+   *          repayment events once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither
+   *         borrower nor servicer
+   * @throws `InsufficientBalanceError` | `InsufficientAllowanceError` — If the
+   *         wallet cannot pay the amount
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  repayAndClose(
+    this: SecuredLine<SignerParameters>,
+    params: { approve?: ApproveMode } & TransactionOptions = {},
+  ): PendingTransaction<RepaymentResult> {
+    return this.send(this.writes.repayAndClose(params), params);
+  }
+
+  /**
+   * Closes a credit position that has no outstanding principal. Any accrued
+   * interest is pulled from the signing wallet.
+   *
+   * Wraps the Solidity call `close(uint256 id)`. Like `repayAndClose`, the
+   * interest checked against the wallet's balance and allowance is quoted 15
+   * minutes after the latest block.
+   *
+   * @param positionId      Unique position identifier on the line.
+   * @param params.approve  Allowance handling for the accrued interest, see
+   *                        `ApproveMode`. Defaults to `"none"`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`, also applied to
+   *                         the approval.
+   *
+   * @returns `PendingTransaction<RepaymentResult>` — the receipt and decoded
+   *          repayment events once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither
+   *         borrower, servicer nor the holder of the position's token
+   * @throws `InsufficientBalanceError` | `InsufficientAllowanceError` — If the
+   *         wallet cannot pay the accrued interest
+   * @throws `LineRevertError` — If the transaction reverts, e.g. with
+   *         `CloseFailedWithPrincipalError`
+   */
+  closePosition(
+    this: SecuredLine<SignerParameters>,
+    positionId: bigint,
+    params: { approve?: ApproveMode } & TransactionOptions = {},
+  ): PendingTransaction<RepaymentResult> {
+    return this.send(this.writes.closePosition(positionId, params), params);
+  }
+
+  /**
+   * Withdraws repaid interest and undrawn deposit from a credit position to
+   * the lender.
+   *
+   * Wraps the Solidity call `withdraw(uint256 tokenId, uint256 amount)`. The
+   * signing wallet must hold the position's credit position token. Repaid
+   * interest is withdrawn first; any remainder comes out of the deposit and is
+   * charged the early withdrawal fee before the position's deadline. Use
+   * `previewWithdraw` to see the split before sending.
+   *
+   * @param params.positionId  Unique position identifier on the line.
+   * @param params.amount      Amount to withdraw **in smallest token units**,
+   *                           or as a `TokenAmount`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<WithdrawalResult>` — the receipt and decoded
+   *          withdrawal events once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer does not hold the position's token
+   * @throws `LineRevertError` — If the transaction reverts
+   *
+   * @example
+   * ```ts
+   * const { received } = await line.previewWithdraw({ positionId: 8n, amount });
+   * await line.withdraw({ positionId: 8n, amount });
    * ```
    */
-  async borrow({
+  withdraw(
+    this: SecuredLine<SignerParameters>,
+    params: {
+      positionId: bigint;
+      amount: Amount;
+    } & TransactionOptions,
+  ): PendingTransaction<WithdrawalResult> {
+    return this.send(this.writes.withdraw(params), params);
+  }
+
+  /**
+   * Previews a lender withdrawal without sending it.
+   *
+   * Splits `amount` into repaid interest and deposit using `available(id)`,
+   * and applies the position's `earlyWithdrawalFee` (in bps) to the deposit
+   * portion when the block read at is before the position's `deadline`.
+   *
+   * @param params.positionId  Unique position identifier on the line.
+   * @param params.amount      Amount to withdraw **in smallest token units**,
+   *                           or as a `TokenAmount`.
+   * @param params.format      Return amounts as `TokenAmount`s.
+   * @param params.blockNumber, params.blockTag
+   *                           Block to preview at. Defaults to the latest
+   *                           block.
+   *
+   * @returns `Promise<WithdrawalPreview>` — the expected split and net amount.
+   *
+   * @throws `WithdrawExceedsAvailableError` — If `amount` exceeds what the
+   *         position can pay out
+   */
+  previewWithdraw(
+    params: {
+      positionId: bigint;
+      amount: Amount;
+    } & BlockOptions & { format?: false },
+  ): Promise<WithdrawalPreview>;
+  previewWithdraw(
+    params: {
+      positionId: bigint;
+      amount: Amount;
+    } & BlockOptions & { format: true },
+  ): Promise<
+    WithTokenAmounts<WithdrawalPreview, (typeof WITHDRAWAL_AMOUNTS)[number]>
+  >;
+  async previewWithdraw({
     positionId,
-    amount,
-    to,
+    amount: requested,
+    format,
+    ...at
   }: {
     positionId: bigint;
-    amount: bigint;
-    to?: Hex;
-  }) {
-    // @ts-expect-error Need to fix typing with viem, it shouldn't expect options
-    const txnHash = await this.contract.write.borrow([
-      positionId,
-      amount,
-      to ?? this.walletAddress,
-    ]);
+    amount: Amount;
+  } & ReadOptions) {
+    const amount = toRawAmount(requested);
+    // Pin both reads to the block whose timestamp decides `isEarly`.
+    const block = await this.publicClient.getBlock(
+      at.blockNumber !== undefined
+        ? { blockNumber: at.blockNumber }
+        : { blockTag: at.blockTag ?? "latest" },
+    );
+    const pinned = block.number === null ? at : { blockNumber: block.number };
+    const [[availableDeposit, availableInterest], position] = await Promise.all(
+      [
+        this.contract.read.available([positionId], pinned),
+        this.contract.read.getCreditPosition([positionId], pinned),
+      ],
+    );
 
-    const result = await this.publicClient.waitForTransactionReceipt({
-      hash: txnHash,
-    });
+    if (amount > availableDeposit + availableInterest) {
+      throw new WithdrawExceedsAvailableError({
+        positionId,
+        available: availableDeposit + availableInterest,
+        amount,
+      });
+    }
+
+    const profit = amount < availableInterest ? amount : availableInterest;
+    const deposit = amount - profit;
+    const isEarly = block.timestamp < position.deadline;
+    const fee = isEarly
+      ? (deposit * BigInt(position.earlyWithdrawalFee)) / 10_000n
+      : 0n;
 
-    return result.transactionHash;
+    const preview = { profit, deposit, fee, received: amount - fee, isEarly };
+    return format
+      ? withTokenAmounts(
+          preview,
+          WITHDRAWAL_AMOUNTS,
+          await this.getToken(position.token).getMetadata(),
+        )
+      : preview;
   }
 
   /**
-   * Retrieves an array of open position IDs from the contract.
+   * Claims the early withdrawal fees other lenders paid into a position.
    *
-   * This method first reads the count of open positions from the contract by calling
-   * the `counts` method, then iterates over each index to request the corresponding
-   * position ID using the `ids` function.
+   * Wraps the Solidity call `claimEarlyWithdrawalFees(uint256 tokenId)`.
    *
-   * @returns {Promise<bigint[]>} A promise that resolves to an array of position IDs represented as bigints.
+   * @param positionId  Unique position identifier on the line.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<WithdrawalResult>` — the receipt and decoded
+   *          withdrawal events once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer does not hold the position's token
+   * @throws `LineRevertError` — If the transaction reverts
    */
-  async getOpenPositionIds(): Promise<bigint[]> {
-    const [openPositionCount] = await this.contract.read.counts();
-    const promises: Promise<bigint>[] = [];
+  claimEarlyWithdrawalFees(
+    this: SecuredLine<SignerParameters>,
+    positionId: bigint,
+    options: TransactionOptions = {},
+  ): PendingTransaction<WithdrawalResult> {
+    return this.send(this.writes.claimEarlyWithdrawalFees(positionId), options);
+  }
 
-    for (let i = 0n; i < openPositionCount; i += 1n) {
-      promises.push(this.contract.read.ids([i]));
-    }
+  /**
+   * Retrieves the early withdrawal fees claimable by the holder of a
+   * position, in smallest token units.
+   *
+   * @param positionId  Unique position identifier on the line.
+   * @param options     Block to read at, and whether to return a
+   *                    `TokenAmount`. Defaults to the latest block.
+   */
+  getClaimableEarlyWithdrawalFees(
+    positionId: bigint,
+    options?: BlockOptions & { format?: false },
+  ): Promise<bigint>;
+  getClaimableEarlyWithdrawalFees(
+    positionId: bigint,
+    options: BlockOptions & { format: true },
+  ): Promise<TokenAmount>;
+  async getClaimableEarlyWithdrawalFees(
+    positionId: bigint,
+    { format, ...at }: ReadOptions = {},
+  ) {
+    const fees = await this.contract.read.claimableEarlyWithdrawalFees(
+      [positionId],
+      at,
+    );
+    return format
+      ? toTokenAmount(fees, await this.getTokenMetadata(positionId))
+      : fees;
+  }
 
-    const openPositionIds = await Promise.all(promises);
+  /**
+   * Returns an `ERC20` helper for the credit token of a position.
+   *
+   * @param positionId  Unique position identifier on the line.
+   */
+  async getCreditToken(positionId: bigint): Promise<ERC20> {
+    const { token } = await this.contract.read.getCreditPosition([positionId]);
 
-    return openPositionIds;
+    return new ERC20({
+      address: token,
+      publicClient: this.publicClient,
+      transactionOptions: this.transactionOptions,
+      ...(this.connectSigner && {
+        walletClient: (await this.getSigner()).walletClient,
+      }),
+    });
   }
 
   /**
-   * Retrieves the details of a secured credit position using the provided position ID.
+   * Returns a wrapper of the line's escrow, which holds the borrower's
+   * collateral. Writes go through the line's signer and
+   * `transactionOptions`.
    *
-   * @param positionId - A unique bigint representing the credit position ID. Can be obtained from `getOpenPositionIds()`.
+   * @returns `Promise<Escrow>` — the escrow at `escrow()`.
    *
-   * @returns A promise that resolves to an object containing the following properties:
-   *  - deposit:  The total liquidity provided by a Lender as a bigint.
-   *  - principal: The amount of a Lender's Deposit on a Line of Credit that has actually been drawn down by the Borrower (in Tokens)
-   *  - interestAccrued: Interest due by a Borrower but not yet repaid to the Line of Credit contract
-   *  - interestRepaid:  Interest repaid by a Borrower to the Line of Credit contract but not yet withdrawn by a Lender
-   *  - decimals: The number of decimals of the credit token as a number.
-   *  - token: The credit token address in hexadecimal format prefixed with '0x'.
-   *  - tokenId: The unique credit token ID as a bigint.
-   *  - isOpen: A boolean indicating if the credit position is currently open.
-   *  - isRestricted: A boolean indicating whether the token can be traded.
-   *  - earlyWithdrawalFee: The fee fee paid by lender for withdrawing deposit early in bps.
-   *  - deadline: The timestamp at which the position will be liquidatable as a bigint.
+   * @throws `NoEscrowError` — If the line has no escrow
+   *
+   * @example
+   * ```ts
+   * const escrow = await line.getEscrow();
+   * console.log(await escrow.getDeposits());
+   * ```
    */
-  async getPosition(positionId: bigint) {
-    const position = await this.contract.read.getCreditPosition([positionId]);
-    return position;
+  async getEscrow(): Promise<Escrow> {
+    const address = await this.contract.read.escrow();
+    if (address === zeroAddress) {
+      throw new NoEscrowError(this.contract.address);
+    }
+
+    return new Escrow({
+      address,
+      publicClient: this.publicClient,
+      transactionOptions: this.transactionOptions,
+      ...(this.connectSigner && {
+        walletClient: (await this.getSigner()).walletClient,
+      }),
+    });
   }
 
   /**
-   * Retrieves the liquidity details for a specific position.
+   * Returns a wrapper of the line's spigot, which owns the borrower's revenue
+   * contracts. Writes go through the line's signer and
+   * `transactionOptions`.
    *
-   * This function reads the available assets for the given position ID from the smart contract and returns an object containing
-   * both the remaining assets available for borrowing or withdrawal and the claimable interest for that position.
+   * @returns `Promise<Spigot>` — the spigot at `spigot()`.
    *
-   * @param positionId - The unique identifier for the position, represented as a bigint.
-   * @returns An object containing:
-   *  - availableAssets: The assets available for borrowing or withdrawal.
-   *  - claimableInterest: The interest amount that can be claimed.
+   * @throws `NoSpigotError` — If the line has no spigot
+   *
+   * @example
+   * ```ts
+   * const spigot = await line.getSpigot();
+   * console.log(await spigot.getBalances([USDC]));
+   * ```
    */
-  async getPositionLiquidity(positionId: bigint) {
-    const available = await this.contract.read.available([positionId]);
-    return {
-      availableAssets: available[0],
-      claimableInterest: available[1],
-    };
+  async getSpigot(): Promise<Spigot> {
+    const address = await this.contract.read.spigot();
+    if (address === zeroAddress) {
+      throw new NoSpigotError(this.contract.address);
+    }
+
+    return new Spigot({
+      address,
+      publicClient: this.publicClient,
+      transactionOptions: this.transactionOptions,
+      ...(this.connectSigner && {
+        walletClient: (await this.getSigner()).walletClient,
+      }),
+    });
   }
+
+  /**
+   * Reads the name, symbol and decimals of a position's credit token. The
+   * metadata is cached per token for the lifetime of the line.
+   *
+   * @param positionId  Unique position identifier on the line.
+   */
+  async getTokenMetadata(positionId: bigint): Promise<TokenMetadata> {
+    const { token } = await this.contract.read.getCreditPosition([positionId]);
+    return this.getToken(token).getMetadata();
+  }
+
+  /**
+   * Converts a decimal amount of a position's credit token into smallest
+   * token units.
+   *
+   * @param value       Amount in whole tokens, e.g. `"10000"` or `"0.5"`.
+   * @param positionId  Unique position identifier on the line.
+   *
+   * @example
+   * ```ts
+   * const amount = await line.parseAmount("10000", 8n); // 10000000000n for USDC
+   * await line.borrow({ positionId: 8n, amount });
+   * ```
+   */
+  async parseAmount(value: string, positionId: bigint): Promise<bigint> {
+    const { decimals } = await this.getTokenMetadata(positionId);
+    return parseUnits(value, decimals);
+  }
+
+  /**
+   * Converts an amount of a position's credit token in smallest token units
+   * into whole tokens, e.g. `10000000000n` USDC into `"10000"`.
+   *
+   * @param raw         Amount in smallest token units.
+   * @param positionId  Unique position identifier on the line.
+   */
+  async formatAmount(raw: bigint, positionId: bigint): Promise<string> {
+    const { decimals } = await this.getTokenMetadata(positionId);
+    return formatUnits(raw, decimals);
+  }
+
+  /**
+   * Builds an `addCredit` proposal against the line's current nonce.
+   *
+   * The lender and the borrower must each submit the same proposal; build it
+   * once and share it (or its terms and nonce) with the counterparty.
+   *
+   * @param terms  Terms of the new credit position.
+   *
+   * @returns `Promise<CreditProposal>` — the encoded proposal.
+   *
+   * @example
+   * ```ts
+   * const proposal = await line.buildAddCreditProposal({
+   *   dRate: 1000n,
+   *   fRate: 100n,
+   *   amount: 50_000_000_000n, // 50,000 USDC
+   *   token: USDC,
+   *   lender: '0x…',
+   *   isRestricted: false,
+   *   earlyWithdrawalFee: 0,
+   *   deadline: 1767225600n,
+   * });
+   * await line.submitProposal(proposal);
+   * ```
+   */
+  async buildAddCreditProposal(terms: AddCreditTerms): Promise<CreditProposal> {
+    const nonce = await this.contract.read.nonce();
+    return encodeAddCreditProposal({ ...terms, nonce });
+  }
+
+  /**
+   * Builds a `refinanceCredit` proposal against the line's current nonce.
+   *
+   * @param terms  New terms for the position.
+   *
+   * @returns `Promise<CreditProposal>` — the encoded proposal.
+   */
+  async buildRefinanceCreditProposal(
+    terms: RefinanceCreditTerms,
+  ): Promise<CreditProposal> {
+    const nonce = await this.contract.read.nonce();
+    return encodeRefinanceCreditProposal({ ...terms, nonce });
+  }
+
+  /**
+   * Computes the id a proposal is stored under on the line.
+   *
+   * @param proposal  The encoded proposal.
+   * @param proposer  Address of the proposer. Defaults to the signing wallet.
+   */
+  async getProposalId(
+    proposal: CreditProposal,
+    proposer?: Address,
+  ): Promise<Hex> {
+    if (proposer) {
+      return computeProposalId(proposal, proposer);
+    }
+
+    const { walletClient } = await this.getSigner();
+    return computeProposalId(proposal, walletClient.account.address);
+  }
+
+  /**
+   * Checks whether `proposer` has a pending proposal for `proposal` on the
+   * line, by reading `mutualConsentProposals(bytes32)`.
+   *
+   * @param proposal  The encoded proposal.
+   * @param proposer  Address of the proposer.
+   */
+  async isProposedBy(
+    proposal: CreditProposal,
+    proposer: Address,
+  ): Promise<boolean> {
+    const registered = await this.contract.read.mutualConsentProposals([
+      computeProposalId(proposal, proposer),
+    ]);
+    return registered !== zeroAddress;
+  }
+
+  /**
+   * Resolves the party that has to consent to `proposal` alongside the
+   * signing wallet: the lender when the wallet is the borrower, and the
+   * borrower otherwise. For `refinanceCredit` the lender is the current holder
+   * of the credit position token.
+   *
+   * @param proposal  The encoded proposal.
+   */
+  async getCounterparty(
+    this: SecuredLine<SignerParameters>,
+    proposal: CreditProposal,
+  ): Promise<Address> {
+    const { walletClient } = await this.getSigner();
+    return this.getCounterpartyOf(proposal, walletClient.account.address);
+  }
+
+  /**
+   * Returns the party that must consent to `proposal` alongside `account`.
+   */
+  private async getCounterpartyOf(
+    proposal: CreditProposal,
+    account: Address,
+  ): Promise<Address> {
+    const borrower = await this.contract.read.borrower();
+    if (!isAddressEqual(borrower, account)) {
+      return borrower;
+    }
+
+    if (proposal.functionName === "addCredit") {
+      return proposal.args[5];
+    }
+
+    const tokenContract = await this.contract.read.tokenContract();
+    return this.publicClient.readContract({
+      address: tokenContract,
+      abi: erc721Abi,
+      functionName: "ownerOf",
+      args: [proposal.args[1]],
+    });
+  }
+
+  /**
+   * Checks whether the counterparty already proposed `proposal`, in which
+   * case submitting it from the signing wallet executes it.
+   *
+   * @param proposal  The encoded proposal.
+   */
+  async hasCounterpartyProposed(
+    this: SecuredLine<SignerParameters>,
+    proposal: CreditProposal,
+  ): Promise<boolean> {
+    const counterparty = await this.getCounterparty(proposal);
+    return this.isProposedBy(proposal, counterparty);
+  }
+
+  /**
+   * Submits a mutual-consent proposal from the signing wallet.
+   *
+   * Sends the proposal's `addCredit` or `refinanceCredit` call. If the
+   * counterparty has not proposed it yet the line emits
+   * `MutualConsentRegistered`; otherwise it emits `MutualConsentAccepted` and
+   * executes the call.
+   *
+   * @param proposal  The encoded proposal.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<ConsentResult>` — the receipt and decoded
+   *          consent events once the transaction is confirmed.
+   *
+   * @throws `LineRevertError` — If the transaction reverts, e.g. with
+   *         `NonceMismatchError`
+   */
+  submitProposal(
+    this: SecuredLine<SignerParameters>,
+    proposal: CreditProposal,
+    options: TransactionOptions = {},
+  ): PendingTransaction<ConsentResult> {
+    return this.send(this.writes.submitProposal(proposal), options);
+  }
+
+  /**
+   * Accepts a proposal the counterparty already submitted, executing it.
+   *
+   * @param proposal  The encoded proposal, identical to the counterparty's.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<ConsentResult>` — the receipt and decoded
+   *          consent events once the transaction is confirmed.
+   *
+   * @throws `NoMatchingProposalError` — If the counterparty has no matching
+   *         proposal
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  acceptProposal(
+    this: SecuredLine<SignerParameters>,
+    proposal: CreditProposal,
+    options: TransactionOptions = {},
+  ): PendingTransaction<ConsentResult> {
+    return this.send(this.writes.acceptProposal(proposal), options);
+  }
+
+  /**
+   * Revokes a proposal previously submitted by the signing wallet.
+   *
+   * Wraps the Solidity call `revokeConsent(uint256 tokenId, bytes msgData)`.
+   * `addCredit` proposals have no position yet and are revoked with
+   * `tokenId = 0`.
+   *
+   * @param proposal  The encoded proposal to revoke.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<ConsentResult>` — the receipt and decoded
+   *          consent events once the transaction is confirmed.
+   *
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  revokeProposal(
+    this: SecuredLine<SignerParameters>,
+    proposal: CreditProposal,
+    options: TransactionOptions = {},
+  ): PendingTransaction<ConsentResult> {
+    return this.send(this.writes.revokeProposal(proposal), options);
+  }
+
+  /**
+   * Increments the line nonce, invalidating every proposal built against the
+   * previous nonce.
+   *
+   * Wraps the Solidity call `incrementNonce()`.
+   *
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<ConsentResult>` — the receipt and decoded
+   *          consent events once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither
+   *         borrower, admin nor servicer
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  incrementNonce(
+    this: SecuredLine<SignerParameters>,
+    options: TransactionOptions = {},
+  ): PendingTransaction<ConsentResult> {
+    return this.send(this.writes.incrementNonce(), options);
+  }
+
+  /**
+   * Clears all pending proposals on the line.
+   *
+   * Wraps the Solidity call `clearProposals()`.
+   *
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<ConsentResult>` — the receipt and decoded
+   *          consent events once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither
+   *         borrower, admin nor servicer
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  clearProposals(
+    this: SecuredLine<SignerParameters>,
+    options: TransactionOptions = {},
+  ): PendingTransaction<ConsentResult> {
+    return this.send(this.writes.clearProposals(), options);
+  }
+
+  /**
+   * Claims the owner's share of a revenue token from the spigot, sells it
+   * for the credit token of the first position in the repayment queue and
+   * repays that position with the proceeds.
+   *
+   * Wraps the Solidity call `claimAndRepay(address claimToken, bytes
+   * zeroExTradeData)`. Unless `claimToken` is the credit token itself, the
+   * claimed and tradeable amounts are quoted through the quote provider and
+   * the quote's price impact is checked before sending.
+   *
+   * @param params.claimToken          Revenue token to claim.
+   * @param params.quoteProvider, params.allowedPriceImpact
+   *                                   Per-call `RevenueOptions`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                                   Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<RevenueResult>` — the receipt and decoded
+   *          claim, trade and repayment events once the transaction is
+   *          confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither borrower, admin nor
+   *         servicer
+   * @throws `MissingQuoteProviderError` — If a trade is needed and no quote
+   *         provider or allowed price impact is set
+   * @throws `PriceImpactTooHighError` — If the quote moves the price more than
+   *         `allowedPriceImpact`
+   * @throws `LineRevertError` — If the transaction reverts
+   *
+   * @example
+   * ```ts
+   * const { events } = await line.claimAndRepay({
+   *   claimToken: WETH,
+   *   quoteProvider: zeroExQuotes,
+   *   allowedPriceImpact: 100n, // 1%
+   * });
+   * ```
+   */
+  claimAndRepay(
+    this: SecuredLine<SignerParameters>,
+    params: { claimToken: Address } & RevenueOptions & TransactionOptions,
+  ): PendingTransaction<RevenueResult> {
+    return this.send(this.writes.claimAndRepay(params), params);
+  }
+
+  /**
+   * Claims the owner's share of a revenue token from the spigot and sells it
+   * for a credit token, keeping the proceeds in the line's reserves for
+   * `repayFromReserves`.
+   *
+   * Wraps the Solidity call `claimAndTrade(address claimToken, bytes
+   * zeroExTradeData)`. The claimed and tradeable amounts are quoted through
+   * the quote provider and the quote's price impact is checked before
+   * sending.
+   *
+   * @param params.claimToken          Revenue token to claim.
+   * @param params.buyToken            Credit token to buy. Defaults to the
+   *                                   credit token of the first position in
+   *                                   the repayment queue.
+   * @param params.quoteProvider, params.allowedPriceImpact
+   *                                   Per-call `RevenueOptions`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                                   Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<RevenueResult>` — the receipt and decoded
+   *          claim and trade events once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither borrower, admin nor
+   *         servicer
+   * @throws `MissingQuoteProviderError` — If a trade is needed and no quote
+   *         provider or allowed price impact is set
+   * @throws `PriceImpactTooHighError` — If the quote moves the price more than
+   *         `allowedPriceImpact`
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  claimAndTrade(
+    this: SecuredLine<SignerParameters>,
+    params: {
+      claimToken: Address;
+      buyToken?: Address;
+    } & RevenueOptions &
+      TransactionOptions,
+  ): PendingTransaction<RevenueResult> {
+    return this.send(this.writes.claimAndTrade(params), params);
+  }
+
+  /**
+   * Retrieves an array of open position IDs from the contract.
+   *
+   * This method first reads the count of open positions from the contract by calling
+   * the `counts` method, then iterates over each index to request the corresponding
+   * position ID using the `ids` function.
+   *
+   * @param at - Block to read at, as `{ blockNumber }` or `{ blockTag }`. Defaults to the latest block.
+   *
+   * @returns {Promise<bigint[]>} A promise that resolves to an array of position IDs represented as bigints.
+   */
+  async getOpenPositionIds(at: BlockOptions = {}): Promise<bigint[]> {
+    const [openPositionCount] = await this.contract.read.counts(at);
+    const promises: Promise<bigint>[] = [];
+
+    for (let i = 0n; i < openPositionCount; i += 1n) {
+      promises.push(this.contract.read.ids([i], at));
+    }
+
+    const openPositionIds = await Promise.all(promises);
+
+    return openPositionIds;
+  }
+
+  /**
+   * Retrieves the details of a secured credit position using the provided position ID.
+   *
+   * @param positionId - A unique bigint representing the credit position ID. Can be obtained from `getOpenPositionIds()`.
+   * @param options - Block to read at, as `{ blockNumber }` or `{ blockTag }`. Defaults to the latest block. With `format: true`, the amounts below are returned as `{ raw, formatted, symbol }`.
+   *
+   * @returns A promise that resolves to an object containing the following properties:
+   *  - deposit:  The total liquidity provided by a Lender as a bigint.
+   *  - principal: The amount of a Lender's Deposit on a Line of Credit that has actually been drawn down by the Borrower (in Tokens)
+   *  - interestAccrued: Interest due by a Borrower but not yet repaid to the Line of Credit contract
+   *  - interestRepaid:  Interest repaid by a Borrower to the Line of Credit contract but not yet withdrawn by a Lender
+   *  - decimals: The number of decimals of the credit token as a number.
+   *  - token: The credit token address in hexadecimal format prefixed with '0x'.
+   *  - tokenId: The unique credit token ID as a bigint.
+   *  - isOpen: A boolean indicating if the credit position is currently open.
+   *  - isRestricted: A boolean indicating whether the token can be traded.
+   *  - earlyWithdrawalFee: The fee fee paid by lender for withdrawing deposit early in bps.
+   *  - deadline: The timestamp at which the position will be liquidatable as a bigint.
+   */
+  getPosition(
+    positionId: bigint,
+    options?: BlockOptions & { format?: false },
+  ): Promise<CreditPosition>;
+  getPosition(
+    positionId: bigint,
+    options: BlockOptions & { format: true },
+  ): Promise<FormattedPosition>;
+  async getPosition(positionId: bigint, { format, ...at }: ReadOptions = {}) {
+    const position = await this.contract.read.getCreditPosition(
+      [positionId],
+      at,
+    );
+    return format
+      ? withTokenAmounts(
+          position,
+          POSITION_AMOUNTS,
+          await this.getToken(position.token).getMetadata(),
+        )
+      : position;
+  }
+
+  /**
+   * Retrieves the liquidity details for a specific position.
+   *
+   * This function reads the available assets for the given position ID from the smart contract and returns an object containing
+   * both the remaining assets available for borrowing or withdrawal and the claimable interest for that position.
+   *
+   * @param positionId - The unique identifier for the position, represented as a bigint.
+   * @param options - Block to read at, as `{ blockNumber }` or `{ blockTag }`. Defaults to the latest block. With `format: true`, amounts are returned as `{ raw, formatted, symbol }`.
+   * @returns An object containing:
+   *  - availableAssets: The assets available for borrowing or withdrawal.
+   *  - claimableInterest: The interest amount that can be claimed.
+   */
+  getPositionLiquidity(
+    positionId: bigint,
+    options?: BlockOptions & { format?: false },
+  ): Promise<PositionLiquidity>;
+  getPositionLiquidity(
+    positionId: bigint,
+    options: BlockOptions & { format: true },
+  ): Promise<
+    WithTokenAmounts<PositionLiquidity, (typeof LIQUIDITY_AMOUNTS)[number]>
+  >;
+  async getPositionLiquidity(
+    positionId: bigint,
+    { format, ...at }: ReadOptions = {},
+  ) {
+    const available = await this.contract.read.available([positionId], at);
+    const liquidity = {
+      availableAssets: available[0],
+      claimableInterest: available[1],
+    };
+    return format
+      ? withTokenAmounts(
+          liquidity,
+          LIQUIDITY_AMOUNTS,
+          await this.getTokenMetadata(positionId),
+        )
+      : liquidity;
+  }
+
+  /**
+   * Retrieves the drawn and facility rates of a position, in on-chain units
+   * and converted.
+   *
+   * Wraps the Solidity call `rates(uint256 id)`.
+   *
+   * @param positionId  Unique position identifier on the line.
+   * @param at          Block to read at. Defaults to the latest block.
+   *
+   * @returns `Promise<PositionRates & { lastAccrued }>` — each rate as raw
+   *          bps, bps, APR and APY, and when interest was last accrued.
+   *
+   * @example
+   * ```ts
+   * const { dRate, fRate } = await line.getRates(8n);
+   * console.log(`${dRate.apr * 100}% APR, ${fRate.bps} bps facility fee`);
+   * ```
+   */
+  async getRates(
+    positionId: bigint,
+    at: BlockOptions = {},
+  ): Promise<PositionRates & { lastAccrued: bigint }> {
+    const [dRate, fRate, lastAccrued] = await this.contract.read.rates(
+      [positionId],
+      at,
+    );
+    return { ...toPositionRates({ dRate, fRate }), lastAccrued };
+  }
+
+  /**
+   * Retrieves a position and projects the interest it will owe at a point in
+   * time.
+   *
+   * `interestAccrued` on-chain only moves when the line accrues. This reads
+   * the position and its `rates(id)` at the latest block and applies the
+   * line's interest math offline: the drawn rate on principal plus the
+   * facility rate on the undrawn deposit, since `lastAccrued`.
+   *
+   * @param positionId  Unique position identifier on the line.
+   * @param at          A `Date`, or a Unix timestamp in seconds. Defaults to
+   *                    now.
+   *
+   * @returns `Promise<ProjectedPosition>` — the position, its rates and the
+   *          projected interest.
+   *
+   * @example
+   * ```ts
+   * const { projected } = await line.getPositionWithProjectedInterest(
+   *   8n,
+   *   new Date("2026-12-31T00:00:00Z"),
+   * );
+   * console.log(projected.interestAccrued);
+   * ```
+   */
+  async getPositionWithProjectedInterest(
+    positionId: bigint,
+    at: Date | bigint = new Date(),
+  ): Promise<ProjectedPosition> {
+    const blockNumber = await this.publicClient.getBlockNumber();
+    const [position, [dRate, fRate, lastAccrued]] = await Promise.all([
+      this.contract.read.getCreditPosition([positionId], { blockNumber }),
+      this.contract.read.rates([positionId], { blockNumber }),
+    ]);
+    const timestamp =
+      typeof at === "bigint" ? at : BigInt(Math.floor(at.getTime() / 1000));
+
+    const rated = { ...position, dRate, fRate, lastAccrued };
+    return {
+      ...rated,
+      rates: toPositionRates(rated),
+      projected: projectInterest(rated, timestamp),
+    };
+  }
+
+  /**
+   * Quotes what the borrower has to send to close a position, or the whole
+   * line, at a point in time.
+   *
+   * Reads the line state, projects each position's interest to `at` and
+   * walks the repayment queue (`ids`): positions with principal are closed
+   * with `depositAndClose` from the head of the queue, so closing one also
+   * closes every position with principal ahead of it. Positions without
+   * principal are closed with `close(id)`.
+   *
+   * Interest keeps accruing until the transactions are mined; quote for a
+   * time a little after you expect to send them.
+   *
+   * @param params.positionId  Position to close. Defaults to every position.
+   * @param params.at          A `Date`, or a Unix timestamp in seconds.
+   *                           Defaults to now.
+   *
+   * @returns `Promise<PayoffQuote>` — the steps in order, with principal,
+   *          interest and servicing fee, and the total per credit token.
+   *
+   * @throws `Error` — If `positionId` is not open on the line
+   *
+   * @example
+   * ```ts
+   * const { steps, totals } = await line.getPayoffQuote({
+   *   positionId: 8n,
+   *   at: new Date("2026-12-31T00:00:00Z"),
+   * });
+   * for (const step of steps) {
+   *   if (step.method === "depositAndClose") await line.repayAndClose();
+   *   else await line.closePosition(step.id);
+   * }
+   * ```
+   */
+  async getPayoffQuote({
+    positionId,
+    at = new Date(),
+  }: {
+    positionId?: bigint;
+    at?: Date | bigint;
+  } = {}): Promise<PayoffQuote> {
+    const snapshot = await this.getLineState();
+    const timestamp =
+      typeof at === "bigint" ? at : BigInt(Math.floor(at.getTime() / 1000));
+
+    return quotePayoff(snapshot, {
+      timestamp,
+      ...(positionId !== undefined && { positionId }),
+    });
+  }
+
+  /**
+   * Previews how `repay` would apply an amount to the position at the head
+   * of the repayment queue: interest first, then principal.
+   *
+   * @param params.amount  Amount to repay **in smallest token units**, or as
+   *                       a `TokenAmount`.
+   * @param params.at      A `Date`, or a Unix timestamp in seconds, the
+   *                       repayment is mined at. Defaults to now.
+   *
+   * @returns `Promise<RepaymentSplit>` — the interest, principal and
+   *          servicing fee parts, and what remains owed.
+   *
+   * @throws `RepayAmountExceedsDebtError` — If `amount` exceeds the debt of
+   *         the head position
+   */
+  async previewRepay({
+    amount,
+    at = new Date(),
+  }: {
+    amount: Amount;
+    at?: Date | bigint;
+  }): Promise<RepaymentSplit> {
+    const snapshot = await this.getLineState();
+    const timestamp =
+      typeof at === "bigint" ? at : BigInt(Math.floor(at.getTime() / 1000));
+
+    return splitRepayment(snapshot, toRawAmount(amount), timestamp);
+  }
+
+  /**
+   * Checks that the signing wallet can pay `amount` of the position's credit
+   * token to the line, approving it first according to `approve` with the
+   * payment's `options`. Given `approvals`, as in a dry run, the approval is
+   * recorded there instead of being sent.
+   */
+  private async ensureCanPay(
+    positionId: bigint,
+    amount: bigint,
+    approve: ApproveMode,
+    options: TransactionOptions,
+    approvals?: TokenApproval[],
+  ) {
+    const token = await this.getCreditToken(positionId);
+    const params = { spender: this.contract.address, amount, mode: approve };
+
+    if (approvals) {
+      const approval = await token.getRequiredApproval(params);
+      if (approval !== undefined) {
+        approvals.push({
+          token: token.address,
+          spender: this.contract.address,
+          amount: approval,
+        });
+      }
+      return;
+    }
+
+    await token.ensureCanPay(params, options);
+  }
+
+  /**
+   * Quotes what closing `positionId`, or the position at the head of the
+   * repayment queue, pulls from the wallet `PAYOFF_BUFFER_SECONDS` after the
+   * latest block. Resolves to `undefined` if the position is not open, so
+   * that the close reverts with the line's own error.
+   */
+  private async quoteClose(
+    positionId?: bigint,
+  ): Promise<PayoffStep | undefined> {
+    const snapshot = await this.getLineState();
+    const position =
+      positionId === undefined
+        ? snapshot.positions[0]
+        : snapshot.positions.find(({ id }) => id === positionId);
+    if (!position) {
+      return undefined;
+    }
+
+    const { timestamp } = await this.publicClient.getBlock({
+      blockNumber: snapshot.blockNumber,
+    });
+    const { steps } = quotePayoff(snapshot, {
+      timestamp: timestamp + PAYOFF_BUFFER_SECONDS,
+      positionId: position.id,
+    });
+    return steps.find(({ id }) => id === position.id);
+  }
+
+  /**
+   * Retrieves the full state of the line in one consistent snapshot.
+   *
+   * Batches `counts`, `ids`, `status`, `borrower`, `admin`,
+   * `otcSwapServicer`, `getFees` and, for every open position,
+   * `getCreditPosition`, `available` and `rates` through Multicall3, all
+   * pinned to the same block.
+   *
+   * @param at  Block to read at, as `{ blockNumber }` or `{ blockTag }`.
+   *            Defaults to the latest block.
+   *
+   * @returns `Promise<LineSnapshot>` — status, roles, fees and open positions
+   *          with their rates and liquidity.
+   *
+   * @example
+   * ```ts
+   * const { status, positions } = await line.getLineState();
+   * if (status === LineStatus.Active) {
+   *   console.log(positions.map((p) => p.availableAssets));
+   * }
+   * ```
+   */
+  async getLineState(at: BlockOptions = {}): Promise<LineSnapshot> {
+    return readLineState(this.publicClient, this.contract.address, at);
+  }
+
+  /**
+   * Reads the lifecycle status of the line.
+   *
+   * Wraps the Solidity call `status()`.
+   *
+   * @param at  Block to read at. Defaults to the latest block.
+   *
+   * @returns `Promise<LineStatus>` — e.g. `LineStatus.Active`.
+   */
+  async getStatus(at: BlockOptions = {}): Promise<LineStatus> {
+    return (await this.contract.read.status(at)) as LineStatus;
+  }
+
+  /**
+   * Predicts whether the line would change status if anyone sent
+   * `healthcheck()` now, e.g. to flip it to `Liquidatable` because a
+   * position is past its deadline.
+   *
+   * Simulates `healthcheck()` through `eth_call`; nothing is sent.
+   *
+   * @returns `Promise<LineHealth>` — the stored status, the status
+   *          `healthcheck()` would set, and whether the line would become
+   *          liquidatable.
+   *
+   * @throws `LineRevertError` — If `healthcheck()` would revert
+   *
+   * @example
+   * ```ts
+   * const { willBeLiquidatable, predicted } = await line.checkHealth();
+   * if (willBeLiquidatable) {
+   *   console.warn(`line would become ${LineStatus[predicted]}`);
+   * }
+   * ```
+   */
+  async checkHealth(): Promise<LineHealth> {
+    return checkLineHealth(this.publicClient, this.contract.address);
+  }
+
+  /**
+   * Reports the time left until the deadline of every open position,
+   * measured from the latest block, soonest first. A position past its
+   * deadline makes the line liquidatable at the next `healthcheck()`.
+   *
+   * @returns `Promise<PositionDeadline[]>` — deadline, seconds remaining
+   *          (negative once passed) and whether it has passed.
+   *
+   * @example
+   * ```ts
+   * for (const { id, secondsRemaining } of await line.getDeadlines()) {
+   *   if (secondsRemaining < 7n * 86_400n) console.warn(`position ${id} is due within a week`);
+   * }
+   * ```
+   */
+  async getDeadlines(): Promise<PositionDeadline[]> {
+    const snapshot = await this.getLineState();
+    const { timestamp } = await this.publicClient.getBlock({
+      blockNumber: snapshot.blockNumber,
+    });
+    return getPositionDeadlines(snapshot, timestamp);
+  }
+
+  /**
+   * Reads how much of each revenue token the spigot holds for the line, and
+   * how much the line has claimed but not traded or used yet.
+   *
+   * @param tokens  Revenue tokens to read.
+   *
+   * @returns `Promise<RevenueBalance[]>` — one balance per token, in order.
+   *
+   * @example
+   * ```ts
+   * const [weth] = await line.getSpigotRevenue([WETH]);
+   * if (weth.claimable + weth.tradeable > 0n) {
+   *   await line.claimAndRepay({ claimToken: WETH });
+   * }
+   * ```
+   */
+  async getSpigotRevenue(
+    tokens: readonly Address[],
+  ): Promise<RevenueBalance[]> {
+    return readSpigotRevenue(this.publicClient, this.contract.address, tokens);
+  }
+
+  /**
+   * Retrieves the events the line emitted in a block range, decoded into a
+   * union discriminated by `eventName`.
+   *
+   * Logs are requested in chunks of `chunkSize` blocks, halving the chunk
+   * whenever the provider rejects a range as too large.
+   *
+   * @param params.fromBlock   First block to search, inclusive.
+   * @param params.toBlock     Last block to search, inclusive. Defaults to
+   *                           `"latest"`.
+   * @param params.types       Event names to return. Defaults to every event.
+   * @param params.positionId  Only return events about this position.
+   * @param params.chunkSize   Blocks per `eth_getLogs` call. Defaults to
+   *                           `10_000`.
+   *
+   * @returns `Promise<LineEvent[]>` — the events in the order they were
+   *          mined, each with its `transactionHash` and block `timestamp`.
+   *
+   * @example
+   * ```ts
+   * const events = await line.getEvents({
+   *   fromBlock: 30_000_000n,
+   *   types: ["Borrow", "RepayPrincipal", "RepayInterest"],
+   *   positionId,
+   * });
+   * for (const event of events) {
+   *   if (event.eventName === "Borrow") {
+   *     console.log(event.timestamp, event.args.amount);
+   *   }
+   * }
+   * ```
+   */
+  async getEvents<type extends LineEventType = LineEventType>(
+    filter: LineEventFilter<type>,
+  ): Promise<LineEvent<type>[]> {
+    return getLineEvents(this.publicClient, this.contract.address, filter);
+  }
+
+  /**
+   * Streams the line's events to `handlers` as new blocks are mined, through
+   * a WebSocket subscription when the line uses a WebSocket endpoint and by
+   * polling otherwise.
+   *
+   * Each handler receives the event and its cursor; persist the cursor of the
+   * last handled event and pass it back as `options.cursor` to resume after a
+   * restart without missing or repeating events.
+   *
+   * @param handlers               Callback per event name to watch.
+   * @param options.confirmations  Blocks an event must be buried under before
+   *                               it is delivered. Defaults to `1`.
+   * @param options.cursor         Resume after this event.
+   * @param options.reorgWindow    Recent blocks re-checked for reorgs.
+   *                               Defaults to `64`.
+   * @param options.onRemoved      Called with a delivered event a reorg
+   *                               dropped, flagged `removed: true`.
+   * @param options.onError        Called when fetching logs or a handler
+   *                               fails.
+   *
+   * @returns A function that stops watching.
+   *
+   * @example
+   * ```ts
+   * const unwatch = line.watch(
+   *   {
+   *     AddCredit: async (event, cursor) => {
+   *       await notify(`new position ${event.args.tokenId}`);
+   *       await saveCursor(cursor);
+   *     },
+   *     UpdateStatus: (event) => console.log(LineStatus[Number(event.args.status)]),
+   *   },
+   *   { confirmations: 3, cursor: await loadCursor() },
+   * );
+   * ```
+   */
+  watch(handlers: LineEventHandlers, options?: WatchOptions): () => void {
+    return watchLineEvents(
+      this.publicClient,
+      this.contract.address,
+      handlers,
+      options,
+    );
+  }
+
+  /**
+   * Finds the last block mined at or before a point in time, for use as the
+   * `blockNumber` of a historical read.
+   *
+   * @param timestamp  A `Date`, or a Unix timestamp in seconds.
+   *
+   * @returns `Promise<bigint>` — the block number.
+   *
+   * @throws `BlockNotFoundError` — If `timestamp` precedes the genesis block.
+   *
+   * @example
+   * ```ts
+   * const blockNumber = await line.getBlockNumberAt(
+   *   new Date("2026-09-30T23:59:59Z"),
+   * );
+   * const liquidity = await line.getPositionLiquidity(positionId, {
+   *   blockNumber,
+   * });
+   * ```
+   */
+  async getBlockNumberAt(timestamp: Date | bigint): Promise<bigint> {
+    return findBlockNumberByTimestamp(this.publicClient, timestamp);
+  }
+
+  /**
+   * Reads the roles an address holds on the line: borrower, admin, servicer,
+   * OTC swap servicer, and lender of the open positions whose credit position
+   * token it holds.
+   *
+   * @param address     Address to check. Defaults to the signing wallet.
+   * @param positionId  Position to read the lender role for: `lender` then
+   *                    tells whether `address` holds that position's token.
+   *
+   * @returns `Promise<LineRoles>` — every role and the positions lent from.
+   *
+   * @throws `NoSignerError` — If `address` is omitted on a read-only line
+   *
+   * @example
+   * ```ts
+   * const { borrower, lender, positionIds } = await line.getRoles();
+   * ```
+   */
+  async getRoles(address?: Address, positionId?: bigint): Promise<LineRoles> {
+    const account =
+      address ?? (await this.getSigner()).walletClient.account.address;
+    return readLineRoles(
+      this.publicClient,
+      this.contract.address,
+      account,
+      positionId,
+    );
+  }
+
+  /**
+   * Checks whether an address holds a role allowed to call a write method,
+   * following `LINE_PERMISSIONS`. Only the roles allowed to call `action`
+   * are read. Writes run this check before sending and throw
+   * `MissingRoleError` when it fails.
+   *
+   * @param action      Write method, e.g. `"borrow"` or `"setFees"`.
+   * @param address     Address to check. Defaults to the signing wallet.
+   * @param positionId  Position the action is on. Lenders may only withdraw
+   *                    from, claim fees of and close the positions whose
+   *                    token they hold.
+   *
+   * @throws `NoSignerError` — If `address` is omitted on a read-only line
+   *
+   * @example
+   * ```ts
+   * if (!(await line.can("withdraw", undefined, positionId))) {
+   *   console.warn("this key does not hold the position's token");
+   * }
+   * ```
+   */
+  async can(
+    action: LineAction,
+    address?: Address,
+    positionId?: bigint,
+  ): Promise<boolean> {
+    const allowed = getAllowedRoles(action);
+    if (allowed === "anyone") {
+      return true;
+    }
+    const account =
+      address ?? (await this.getSigner()).walletClient.account.address;
+    return hasLineRole(
+      this.publicClient,
+      this.contract.address,
+      account,
+      allowed,
+      positionId,
+    );
+  }
+
+  /**
+   * Lists the transactions of the signing account that were broadcast by
+   * this process and not seen mined yet, across every `SecuredLine` sharing
+   * the account.
+   *
+   * Only local accounts (`privateKey` or `account`) are tracked. Wallet
+   * clients and injected providers assign nonces themselves, so this is
+   * always empty for them.
+   *
+   * @returns `Promise<PendingNonce[]>` — nonce, latest hash and request of
+   *          each pending transaction, in nonce order.
+   */
+  async getPendingTransactions(
+    this: SecuredLine<SignerParameters>,
+  ): Promise<PendingNonce[]> {
+    const { walletClient } = await this.getSigner();
+    return getNonceManager(walletClient.chain.id, walletClient.account.address)
+      .pending;
+  }
+
+  /**
+   * @throws `MissingRoleError` — If `account` holds none of the roles allowed
+   *         to perform `action` on `positionId`.
+   */
+  private async ensureCan(
+    action: LineAction,
+    account: Address,
+    positionId?: bigint,
+  ) {
+    const allowed = getAllowedRoles(action);
+    if (allowed === "anyone") {
+      return;
+    }
+
+    const allowedRole = await hasLineRole(
+      this.publicClient,
+      this.contract.address,
+      account,
+      allowed,
+      positionId,
+    );
+    if (!allowedRole) {
+      throw new MissingRoleError({ account, action, roles: allowed });
+    }
+  }
+
+  /**
+   * Returns the credit token of the first position in the repayment queue.
+   */
+  private async getHeadCreditToken(): Promise<Address> {
+    const positionId = await this.contract.read.ids([0n]);
+    const { token } = await this.contract.read.getCreditPosition([positionId]);
+    return token;
+  }
+
+  /**
+   * Builds the 0x calldata selling everything a claim of `claimToken` would
+   * leave tradeable for `buyToken`. Claiming the credit token itself needs no
+   * trade.
+   *
+   * @throws `MissingQuoteProviderError` — If no quote provider or allowed
+   *         price impact is set
+   * @throws `PriceImpactTooHighError` — If the quote exceeds the allowed
+   *         price impact
+   */
+  private async quoteClaim(
+    claimToken: Address,
+    buyToken: Address,
+    overrides: {
+      [option in keyof RevenueOptions]: RevenueOptions[option] | undefined;
+    },
+  ): Promise<Hex> {
+    if (isAddressEqual(claimToken, buyToken)) {
+      return "0x";
+    }
+
+    const quoteProvider = overrides.quoteProvider ?? this.revenue.quoteProvider;
+    const allowedPriceImpact =
+      overrides.allowedPriceImpact ?? this.revenue.allowedPriceImpact;
+    if (!quoteProvider || allowedPriceImpact === undefined) {
+      throw new MissingQuoteProviderError();
+    }
+
+    const [{ claimable, tradeable }] = (await this.getSpigotRevenue([
+      claimToken,
+    ])) as [RevenueBalance];
+    const quote = await quoteRevenueTrade(
+      quoteProvider,
+      {
+        chainId: await this.publicClient.getChainId(),
+        taker: this.contract.address,
+        sellToken: claimToken,
+        buyToken,
+        sellAmount: claimable + tradeable,
+      },
+      allowedPriceImpact,
+    );
+    return quote.data;
+  }
+
+  /**
+   * Returns the cached read-only `ERC20` helper of a token, creating it on
+   * first use.
+   */
+  private getToken(address: Address): ERC20 {
+    let token = this.tokens.get(address);
+    if (!token) {
+      token = new ERC20({ address, publicClient: this.publicClient });
+      this.tokens.set(address, token);
+    }
+    return token;
+  }
+
+  /**
+   * Resolves the configured signer, connecting an injected provider on first
+   * use.
+   *
+   * @throws `NoSignerError` — If the line was constructed without a signer.
+   */
+  protected async getSigner() {
+    if (!this.connectSigner) {
+      throw new NoSignerError();
+    }
+
+    if (!this.signer) {
+      this.signer = this.connectSigner().then((walletClient) => ({
+        walletClient,
+      }));
+      this.signer.catch(() => {
+        this.signer = undefined;
+      });
+    }
+
+    return this.signer;
+  }
+
+  /**
+   * Every write of the line, described once: the write methods send them
+   * and `simulate` simulates them.
+   */
+  private readonly writes = {
+    borrow: ({
+      positionId,
+      amount,
+      to,
+    }: Parameters<SecuredLine["borrow"]>[0]): LineWrite<Hex> => ({
+      action: "borrow",
+      call: ({ account }) => ({
+        functionName: "borrow",
+        args: [positionId, toRawAmount(amount), to ?? account],
+      }),
+      onMined: (receipt) => receipt.transactionHash,
+    }),
+    repay: ({
+      amount,
+      approve = "none",
+    }: Parameters<SecuredLine["repay"]>[0]): LineWrite<RepaymentResult> => ({
+      action: "repay",
+      call: async ({ ensureCanPay }) => {
+        const raw = toRawAmount(amount);
+        const positionId = await this.contract.read.ids([0n]);
+        await ensureCanPay(positionId, raw, approve);
+        return { functionName: "depositAndRepay", args: [raw] };
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, REPAYMENT_EVENTS),
+    }),
+    repayFromReserves: ({
+      amount,
+    }: Parameters<
+      SecuredLine["repayFromReserves"]
+    >[0]): LineWrite<RepaymentResult> => ({
+      action: "repayFromReserves",
+      call: { functionName: "useAndRepay", args: [toRawAmount(amount)] },
+      onMined: (receipt) => this.decodeEvents(receipt, REPAYMENT_EVENTS),
+    }),
+    repayAndClose: ({
+      approve = "none",
+    }: Parameters<
+      SecuredLine["repayAndClose"]
+    >[0] = {}): LineWrite<RepaymentResult> => ({
+      action: "repayAndClose",
+      call: async ({ ensureCanPay }) => {
+        const payoff = await this.quoteClose();
+        if (payoff) {
+          await ensureCanPay(payoff.id, payoff.amount, approve);
+        }
+        return { functionName: "depositAndClose", args: [] };
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, REPAYMENT_EVENTS),
+    }),
+    closePosition: (
+      positionId: bigint,
+      { approve = "none" }: Parameters<SecuredLine["closePosition"]>[1] = {},
+    ): LineWrite<RepaymentResult> => ({
+      action: "closePosition",
+      positionId,
+      call: async ({ ensureCanPay }) => {
+        const payoff = await this.quoteClose(positionId);
+        // A position with principal cannot be closed; leave it to the line
+        // to revert with `CloseFailedWithPrincipal`.
+        if (payoff && payoff.principal === 0n && payoff.interest > 0n) {
+          await ensureCanPay(positionId, payoff.interest, approve);
+        }
+        return { functionName: "close", args: [positionId] };
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, REPAYMENT_EVENTS),
+    }),
+    withdraw: ({
+      positionId,
+      amount,
+    }: Parameters<
+      SecuredLine["withdraw"]
+    >[0]): LineWrite<WithdrawalResult> => ({
+      action: "withdraw",
+      positionId,
+      call: {
+        functionName: "withdraw",
+        args: [positionId, toRawAmount(amount)],
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, WITHDRAWAL_EVENTS),
+    }),
+    claimEarlyWithdrawalFees: (
+      positionId: bigint,
+    ): LineWrite<WithdrawalResult> => ({
+      action: "claimEarlyWithdrawalFees",
+      positionId,
+      call: { functionName: "claimEarlyWithdrawalFees", args: [positionId] },
+      onMined: (receipt) => this.decodeEvents(receipt, WITHDRAWAL_EVENTS),
+    }),
+    submitProposal: (proposal: CreditProposal): LineWrite<ConsentResult> => ({
+      action: "submitProposal",
+      call: proposal,
+      onMined: (receipt) => this.decodeEvents(receipt, CONSENT_EVENTS),
+    }),
+    acceptProposal: (proposal: CreditProposal): LineWrite<ConsentResult> => ({
+      action: "acceptProposal",
+      call: async ({ account }) => {
+        const counterparty = await this.getCounterpartyOf(proposal, account);
+        if (!(await this.isProposedBy(proposal, counterparty))) {
+          throw new NoMatchingProposalError({
+            functionName: proposal.functionName,
+            counterparty,
+          });
+        }
+        return proposal;
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, CONSENT_EVENTS),
+    }),
+    revokeProposal: (proposal: CreditProposal): LineWrite<ConsentResult> => {
+      const tokenId =
+        proposal.functionName === "refinanceCredit" ? proposal.args[1] : 0n;
+      return {
+        action: "revokeProposal",
+        call: { functionName: "revokeConsent", args: [tokenId, proposal.data] },
+        onMined: (receipt) => this.decodeEvents(receipt, CONSENT_EVENTS),
+      };
+    },
+    incrementNonce: (): LineWrite<ConsentResult> => ({
+      action: "incrementNonce",
+      call: { functionName: "incrementNonce", args: [] },
+      onMined: (receipt) => this.decodeEvents(receipt, CONSENT_EVENTS),
+    }),
+    clearProposals: (): LineWrite<ConsentResult> => ({
+      action: "clearProposals",
+      call: { functionName: "clearProposals", args: [] },
+      onMined: (receipt) => this.decodeEvents(receipt, CONSENT_EVENTS),
+    }),
+    claimAndRepay: ({
+      claimToken,
+      quoteProvider,
+      allowedPriceImpact,
+    }: Parameters<
+      SecuredLine["claimAndRepay"]
+    >[0]): LineWrite<RevenueResult> => ({
+      action: "claimAndRepay",
+      call: async () => {
+        const buyToken = await this.getHeadCreditToken();
+        const data = await this.quoteClaim(claimToken, buyToken, {
+          quoteProvider,
+          allowedPriceImpact,
+        });
+        return { functionName: "claimAndRepay", args: [claimToken, data] };
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, REVENUE_EVENTS),
+    }),
+    claimAndTrade: ({
+      claimToken,
+      buyToken,
+      quoteProvider,
+      allowedPriceImpact,
+    }: Parameters<
+      SecuredLine["claimAndTrade"]
+    >[0]): LineWrite<RevenueResult> => ({
+      action: "claimAndTrade",
+      call: async () => {
+        const data = await this.quoteClaim(
+          claimToken,
+          buyToken ?? (await this.getHeadCreditToken()),
+          { quoteProvider, allowedPriceImpact },
+        );
+        return { functionName: "claimAndTrade", args: [claimToken, data] };
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, REVENUE_EVENTS),
+    }),
+  };
+
+  /**
+   * Resolves the signer and builds the call of `write`, after checking that
+   * the signer holds a role allowed to perform it. Approvals sent on the way
+   * use the write's per-call `options`.
+   */
+  private async prepareWrite(
+    write: LineWrite<unknown>,
+    options: TransactionOptions,
+    approvals?: TokenApproval[],
+  ): Promise<{ walletClient: SignerClient; call: LineWriteCall }> {
+    const { walletClient } = await this.getSigner();
+    const account = walletClient.account.address;
+    await this.ensureCan(write.action, account, write.positionId);
+    const call =
+      typeof write.call === "function"
+        ? await write.call({
+            account,
+            ensureCanPay: (positionId, amount, approve) =>
+              this.ensureCanPay(
+                positionId,
+                amount,
+                approve,
+                options,
+                approvals,
+              ),
+          })
+        : write.call;
+    return { walletClient, call };
+  }
+
+  /**
+   * Sends a line write through the signer and hands its receipt to
+   * `onMined`. Gas is estimated up front so that a revert surfaces as the
+   * matching `LineRevertError` subclass.
+   */
+  protected send<result>(
+    write: LineWrite<result>,
+    options: TransactionOptions,
+  ): PendingTransaction<result> {
+    return submitContractWrite({
+      publicClient: this.publicClient,
+      address: this.contract.address,
+      abi: SecuredLineABI,
+      prepare: () => this.prepareWrite(write, options),
+      onMined: write.onMined,
+      options: { ...this.transactionOptions, ...options },
+    });
+  }
+
+  /**
+   * Simulates a line write without sending anything. Approvals its pre-flight
+   * checks would send are simulated ahead of it instead.
+   */
+  protected async simulateWrite(
+    write: LineWrite<unknown>,
+  ): Promise<SimulationResult> {
+    const approvals: TokenApproval[] = [];
+    const { walletClient, call } = await this.prepareWrite(
+      write,
+      {},
+      approvals,
+    );
+    return simulateLineWrite(this.publicClient, {
+      address: this.contract.address,
+      account: walletClient.account.address,
+      call,
+      approvals,
+    });
+  }
+
+  /**
+   * Decodes the given events emitted by this line in a mined transaction.
+   */
+  protected decodeEvents<eventName extends LineEventName>(
+    receipt: TransactionReceipt,
+    eventNames: readonly eventName[],
+  ): LineTransactionResult<eventName> {
+    const events = parseEventLogs({
+      abi: SecuredLineABI,
+      eventName: [...eventNames],
+      logs: receipt.logs.filter((log) =>
+        isAddressEqual(log.address, this.contract.address),
+      ),
+    });
+
+    return { receipt, events };
+  }
+}
+
+/**
+ * Role-scoped operations of a line's admin and servicers: changing roles,
+ * fees and OTC swap settings, and activating the line.
+ *
+ * Every write first checks that the signing wallet is the line's `admin()`
+ * or an approved servicer (`isServicer(address)`), throwing
+ * `MissingRoleError` before anything is sent otherwise. Reads and borrower or
+ * lender writes of `SecuredLine` remain available.
+ *
+ * @example
+ * ```ts
+ * const admin = new SecuredLineAdmin({
+ *   address: '0x…',
+ *   privateKey: process.env.ADMIN_PRIVATE_KEY,
+ *   chainId: 'base',
+ *   rpcUrl,
+ * });
+ *
+ * const { events } = await admin.setFees({ servicingFee: 500 });
+ * ```
+ */
+export class SecuredLineAdmin extends SecuredLine<SignerParameters> {
+  /**
+   * Dry-run counterparts of every write method, including the admin ones,
+   * e.g. `simulate.setFees(…)`. See `SecuredLine.simulate`.
+   */
+  override get simulate(): AdminSimulator {
+    const { adminWrites } = this;
+    return {
+      ...super.simulate,
+      updateAdmin: (newAdmin) =>
+        this.simulateWrite(adminWrites.updateAdmin(newAdmin)),
+      updateBorrower: (newBorrower) =>
+        this.simulateWrite(adminWrites.updateBorrower(newBorrower)),
+      setServicer: (params) =>
+        this.simulateWrite(adminWrites.setServicer(params)),
+      setFees: (fees) => this.simulateWrite(adminWrites.setFees(fees)),
+      setOtcSwapServicer: (servicer) =>
+        this.simulateWrite(adminWrites.setOtcSwapServicer(servicer)),
+      updateAllowedOTCPriceImpact: (allowedPriceImpact) =>
+        this.simulateWrite(
+          adminWrites.updateAllowedOTCPriceImpact(allowedPriceImpact),
+        ),
+      activateLine: () => this.simulateWrite(adminWrites.activateLine()),
+    };
+  }
+
+  /**
+   * Hands the admin role to another address.
+   *
+   * Wraps the Solidity call `updateAdmin(address newAdmin)`.
+   *
+   * @param newAdmin  Address of the new admin.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<AdminResult>` — the receipt and the decoded
+   *          `UpdateAdmin` event once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither admin nor servicer
+   * @throws `LineRevertError` — If the transaction reverts, e.g. with
+   *         `InvalidAddressError`
+   */
+  updateAdmin(
+    newAdmin: Address,
+    options: TransactionOptions = {},
+  ): PendingTransaction<AdminResult> {
+    return this.send(this.adminWrites.updateAdmin(newAdmin), options);
+  }
+
+  /**
+   * Moves the line to a new borrower address.
+   *
+   * Wraps the Solidity call `updateBorrower(address newBorrower)`. The
+   * current borrower may also call it.
+   *
+   * @param newBorrower  Address of the new borrower.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<AdminResult>` — the receipt and the decoded
+   *          `UpdateBorrower` event once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither admin, servicer nor
+   *         borrower
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  updateBorrower(
+    newBorrower: Address,
+    options: TransactionOptions = {},
+  ): PendingTransaction<AdminResult> {
+    return this.send(this.adminWrites.updateBorrower(newBorrower), options);
+  }
+
+  /**
+   * Approves or revokes a servicer.
+   *
+   * Wraps the Solidity call `setServicer(address servicer, bool approved)`.
+   *
+   * @param params.servicer  Address to approve or revoke.
+   * @param params.approved  `false` to revoke. Defaults to `true`.
+   * @param params.confirmations, params.timeout, params.fees
+   *                         Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<AdminResult>` — the receipt and the decoded
+   *          `ServicerApproved` event once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither admin nor servicer
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  setServicer(
+    params: {
+      servicer: Address;
+      approved?: boolean;
+    } & TransactionOptions,
+  ): PendingTransaction<AdminResult> {
+    return this.send(this.adminWrites.setServicer(params), params);
+  }
+
+  /**
+   * Updates the line's fees, in bps.
+   *
+   * Wraps the Solidity call `setFees(Fees _fees)`. Fees left out keep their
+   * current value, read from `getFees()` before sending.
+   *
+   * @param fees  `originationFee`, `swapFee` and `servicingFee` to set.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<AdminResult>` — the receipt and the decoded
+   *          `SetFee` events, one per fee, once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither admin nor servicer
+   * @throws `LineRevertError` — If the transaction reverts, e.g. with
+   *         `MaximumFeeExceededError`
+   *
+   * @example
+   * ```ts
+   * await admin.setFees({ servicingFee: 500 }); // 5% of repaid interest
+   * ```
+   */
+  setFees(
+    fees: Partial<LineFees>,
+    options: TransactionOptions = {},
+  ): PendingTransaction<AdminResult> {
+    return this.send(this.adminWrites.setFees(fees), options);
+  }
+
+  /**
+   * Sets the address allowed to settle OTC swaps of spigot revenue.
+   *
+   * Wraps the Solidity call `setOtcSwapServicer(address servicer)`.
+   *
+   * @param servicer  Address of the OTC swap servicer.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<AdminResult>` — the receipt and the decoded
+   *          `OtcSwapServicerUpdated` event once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither admin nor servicer
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  setOtcSwapServicer(
+    servicer: Address,
+    options: TransactionOptions = {},
+  ): PendingTransaction<AdminResult> {
+    return this.send(this.adminWrites.setOtcSwapServicer(servicer), options);
+  }
+
+  /**
+   * Sets the maximum price impact allowed on OTC swaps of spigot revenue.
+   *
+   * Wraps the Solidity call `updateAllowedOTCPriceImpact(uint128
+   * allowedPriceImpact)`.
+   *
+   * @param allowedPriceImpact  Maximum price impact, in bps.
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<AdminResult>` — the receipt once the
+   *          transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither admin nor servicer
+   * @throws `LineRevertError` — If the transaction reverts
+   */
+  updateAllowedOTCPriceImpact(
+    allowedPriceImpact: bigint,
+    options: TransactionOptions = {},
+  ): PendingTransaction<AdminResult> {
+    return this.send(
+      this.adminWrites.updateAllowedOTCPriceImpact(allowedPriceImpact),
+      options,
+    );
+  }
+
+  /**
+   * Activates the line once its modules are in place.
+   *
+   * Wraps the Solidity call `activateLine()`.
+   *
+   * @param options  Per-call `TransactionOptions`.
+   *
+   * @returns `PendingTransaction<AdminResult>` — the receipt and the decoded
+   *          `UpdateStatus` event once the transaction is confirmed.
+   *
+   * @throws `MissingRoleError` — If the signer is neither admin nor servicer
+   * @throws `LineRevertError` — If the transaction reverts, e.g. with
+   *         `BadStatusError`
+   */
+  activateLine(
+    options: TransactionOptions = {},
+  ): PendingTransaction<AdminResult> {
+    return this.send(this.adminWrites.activateLine(), options);
+  }
+
+  /**
+   * Every admin write, described once like `SecuredLine`'s writes.
+   */
+  private readonly adminWrites = {
+    updateAdmin: (newAdmin: Address): LineWrite<AdminResult> => ({
+      action: "updateAdmin",
+      call: { functionName: "updateAdmin", args: [newAdmin] },
+      onMined: (receipt) => this.decodeEvents(receipt, ADMIN_EVENTS),
+    }),
+    updateBorrower: (newBorrower: Address): LineWrite<AdminResult> => ({
+      action: "updateBorrower",
+      call: { functionName: "updateBorrower", args: [newBorrower] },
+      onMined: (receipt) => this.decodeEvents(receipt, ADMIN_EVENTS),
+    }),
+    setServicer: ({
+      servicer,
+      approved = true,
+    }: Parameters<
+      SecuredLineAdmin["setServicer"]
+    >[0]): LineWrite<AdminResult> => ({
+      action: "setServicer",
+      call: { functionName: "setServicer", args: [servicer, approved] },
+      onMined: (receipt) => this.decodeEvents(receipt, ADMIN_EVENTS),
+    }),
+    setFees: (fees: Partial<LineFees>): LineWrite<AdminResult> => ({
+      action: "setFees",
+      call: async () => {
+        const current = await this.contract.read.getFees();
+        return { functionName: "setFees", args: [{ ...current, ...fees }] };
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, ADMIN_EVENTS),
+    }),
+    setOtcSwapServicer: (servicer: Address): LineWrite<AdminResult> => ({
+      action: "setOtcSwapServicer",
+      call: { functionName: "setOtcSwapServicer", args: [servicer] },
+      onMined: (receipt) => this.decodeEvents(receipt, ADMIN_EVENTS),
+    }),
+    updateAllowedOTCPriceImpact: (
+      allowedPriceImpact: bigint,
+    ): LineWrite<AdminResult> => ({
+      action: "updateAllowedOTCPriceImpact",
+      call: {
+        functionName: "updateAllowedOTCPriceImpact",
+        args: [allowedPriceImpact],
+      },
+      onMined: (receipt) => this.decodeEvents(receipt, ADMIN_EVENTS),
+    }),
+    activateLine: (): LineWrite<AdminResult> => ({
+      action: "activateLine",
+      call: { functionName: "activateLine", args: [] },
+      onMined: (receipt) => this.decodeEvents(receipt, ADMIN_EVENTS),
+    }),
+  };
 }
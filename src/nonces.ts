@@ -0,0 +1,197 @@
+/**
+ * Local nonce assignment for accounts that send several transactions at
+ * once. Every `SecuredLine` signing with the same local account on the same
+ * chain shares one `NonceManager`, which broadcasts their transactions one at
+ * a time with consecutive nonces instead of letting each ask the node for
+ * the pending count and collide.
+ *
+ * @example
+ * ```ts
+ * // Both borrows get consecutive nonces, then the repay the next one
+ * await Promise.all([
+ *   line.borrow({ positionId: 1n, amount }),
+ *   otherLine.borrow({ positionId: 2n, amount }),
+ * ]);
+ * await line.repay({ amount });
+ *
+ * console.log(await line.getPendingTransactions());
+ * ```
+ */
+
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  BaseError,
+  NonceTooLowError,
+  TransactionNotFoundError,
+} from "viem";
+
+import { type TransactionRequest } from "./transactions";
+
+/**
+ * A transaction broadcast through a `NonceManager` that has not been seen
+ * mined yet.
+ */
+export type PendingNonce = {
+  nonce: number;
+  /** Hash of the latest transaction broadcast at this nonce. */
+  hash: Hex;
+  request: TransactionRequest;
+  /** Unix time, in milliseconds, of the latest broadcast. */
+  sentAt: number;
+};
+
+/** Attempts to broadcast at a fresh nonce after a nonce conflict. */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Assigns nonces to the transactions of one account and broadcasts them in
+ * order. Obtain the shared instance of an account with `getNonceManager`.
+ */
+export class NonceManager {
+  readonly address: Address;
+
+  /** Next nonce to assign, or `undefined` to read it from the node. */
+  private next: number | undefined;
+  private queue: Promise<unknown> = Promise.resolve();
+  private sent = new Map<number, PendingNonce>();
+
+  constructor(address: Address) {
+    this.address = address;
+  }
+
+  /**
+   * Transactions broadcast by this manager that have not been seen mined,
+   * by nonce.
+   */
+  get pending(): PendingNonce[] {
+    return [...this.sent.values()].sort((a, b) => a.nonce - b.nonce);
+  }
+
+  /**
+   * Broadcasts `request` through `broadcast` with the next nonce, after
+   * every send queued before it.
+   *
+   * If the node rejects the nonce as already used, e.g. because the account
+   * also sends from elsewhere, the nonce is read again from the node and the
+   * send retried. A send that fails otherwise does not consume its nonce.
+   *
+   * @returns `Promise<{ nonce, hash }>` — the nonce used and the hash of the
+   *          broadcast transaction.
+   */
+  send(
+    client: PublicClient,
+    request: TransactionRequest,
+    broadcast: (nonce: number) => Promise<Hex>,
+  ): Promise<{ nonce: number; hash: Hex }> {
+    return this.enqueue(async () => {
+      for (let attempt = 1; ; attempt++) {
+        const nonce = this.next ?? (await this.fetchNonce(client));
+        try {
+          const hash = await broadcast(nonce);
+          this.next = nonce + 1;
+          this.sent.set(nonce, { nonce, hash, request, sentAt: Date.now() });
+          return { nonce, hash };
+        } catch (error) {
+          this.next = undefined;
+          if (attempt === MAX_ATTEMPTS || !isNonceConflict(error)) {
+            throw error;
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Records a replacement broadcast at `nonce`, e.g. by `speedUp`.
+   */
+  replace(nonce: number, hash: Hex, request: TransactionRequest): void {
+    this.sent.set(nonce, { nonce, hash, request, sentAt: Date.now() });
+  }
+
+  /**
+   * Forgets the transaction at `nonce` once it, or a replacement, is mined.
+   */
+  confirm(nonce: number): void {
+    this.sent.delete(nonce);
+  }
+
+  /**
+   * Reconciles the pending transactions with the node: those below the
+   * account's mined nonce are forgotten, and if any was dropped from the
+   * mempool the next send reuses its nonce.
+   */
+  sync(client: PublicClient): Promise<void> {
+    return this.enqueue(async () => {
+      const mined = await client.getTransactionCount({
+        address: this.address,
+        blockTag: "latest",
+      });
+
+      for (const { nonce, hash } of this.pending) {
+        if (nonce < mined) {
+          this.sent.delete(nonce);
+          continue;
+        }
+        try {
+          await client.getTransaction({ hash });
+        } catch (error) {
+          if (!(error instanceof TransactionNotFoundError)) {
+            throw error;
+          }
+          this.sent.delete(nonce);
+          this.next = undefined;
+        }
+      }
+    });
+  }
+
+  private enqueue<result>(job: () => Promise<result>): Promise<result> {
+    const run = this.queue.then(job, job);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private fetchNonce(client: PublicClient): Promise<number> {
+    return client.getTransactionCount({
+      address: this.address,
+      blockTag: "pending",
+    });
+  }
+}
+
+const managers = new Map<string, NonceManager>();
+
+/**
+ * Returns the `NonceManager` shared by every sender of `address` on the
+ * chain `chainId`, creating it on first use.
+ */
+export function getNonceManager(
+  chainId: number,
+  address: Address,
+): NonceManager {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  let manager = managers.get(key);
+  if (!manager) {
+    manager = new NonceManager(address);
+    managers.set(key, manager);
+  }
+  return manager;
+}
+
+/**
+ * Whether a broadcast failed because its nonce is already used by a mined or
+ * pending transaction.
+ */
+function isNonceConflict(error: unknown): boolean {
+  if (!(error instanceof BaseError)) {
+    return false;
+  }
+  return (
+    error.walk((cause) => cause instanceof NonceTooLowError) !== null ||
+    /already known|replacement transaction underpriced|nonce too low/i.test(
+      error.details || error.shortMessage,
+    )
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Conversions between the rate units of a line. `dRate` and `fRate` are
+ * stored on-chain as `uint128` annual rates in bps (`1000n` is 10% a year)
+ * and charged as simple interest. APR is the same rate as a fraction; APY is
+ * the yield the APR would give if interest were compounded, for comparison
+ * with compounding products.
+ *
+ * @example
+ * ```ts
+ * toRate(1_000n); // { raw: 1000n, bps: 1000, apr: 0.1, apy: 0.10515… }
+ * aprToRate(0.085); // 850n
+ * ```
+ */
+
+/** Compounding periods per year assumed by APY conversions: daily. */
+export const DEFAULT_COMPOUNDING_PERIODS = 365;
+
+/**
+ * A rate in every unit.
+ */
+export type Rate = {
+  /** On-chain value, in bps. */
+  raw: bigint;
+  bps: number;
+  /** Nominal annual rate as a fraction, e.g. `0.1` for 10%. */
+  apr: number;
+  /** Annual yield compounded `DEFAULT_COMPOUNDING_PERIODS` times. */
+  apy: number;
+};
+
+/**
+ * Drawn and facility rates of a position in every unit.
+ */
+export type PositionRates = {
+  /** Drawn rate, charged on principal. */
+  dRate: Rate;
+  /** Facility rate, charged on the undrawn deposit. */
+  fRate: Rate;
+};
+
+/**
+ * Converts an on-chain rate into bps.
+ */
+export function rateToBps(rate: bigint): number {
+  return Number(rate);
+}
+
+/**
+ * Converts bps into an on-chain rate, rounding to the nearest bps.
+ *
+ * @throws `RangeError` — If `bps` is negative or not finite
+ */
+export function bpsToRate(bps: number): bigint {
+  if (!Number.isFinite(bps) || bps < 0) {
+    throw new RangeError(`invalid rate: ${bps} bps`);
+  }
+  return BigInt(Math.round(bps));
+}
+
+/**
+ * Converts bps into a nominal APR fraction.
+ */
+export function bpsToApr(bps: number): number {
+  return bps / 10_000;
+}
+
+/**
+ * Converts a nominal APR fraction into bps.
+ */
+export function aprToBps(apr: number): number {
+  return apr * 10_000;
+}
+
+/**
+ * Compounds a nominal APR into an APY.
+ *
+ * @param apr      Nominal annual rate as a fraction.
+ * @param periods  Compounding periods per year. Defaults to daily.
+ */
+export function aprToApy(
+  apr: number,
+  periods: number = DEFAULT_COMPOUNDING_PERIODS,
+): number {
+  return (1 + apr / periods) ** periods - 1;
+}
+
+/**
+ * Converts an APY back into the nominal APR that compounds to it.
+ *
+ * @param apy      Annual yield as a fraction.
+ * @param periods  Compounding periods per year. Defaults to daily.
+ */
+export function apyToApr(
+  apy: number,
+  periods: number = DEFAULT_COMPOUNDING_PERIODS,
+): number {
+  return ((1 + apy) ** (1 / periods) - 1) * periods;
+}
+
+/**
+ * Converts a nominal APR fraction into an on-chain rate.
+ *
+ * @throws `RangeError` — If `apr` is negative or not finite
+ */
+export function aprToRate(apr: number): bigint {
+  return bpsToRate(aprToBps(apr));
+}
+
+/**
+ * Converts an APY fraction into the on-chain rate whose daily compounding
+ * comes closest to it.
+ *
+ * @throws `RangeError` — If `apy` is negative or not finite
+ */
+export function apyToRate(apy: number): bigint {
+  return aprToRate(apyToApr(apy));
+}
+
+/**
+ * Expresses an on-chain rate in every unit.
+ */
+export function toRate(raw: bigint): Rate {
+  const bps = rateToBps(raw);
+  const apr = bpsToApr(bps);
+  return { raw, bps, apr, apy: aprToApy(apr) };
+}
+
+/**
+ * Expresses the on-chain `dRate` and `fRate` of a position in every unit.
+ */
+export function toPositionRates({
+  dRate,
+  fRate,
+}: {
+  dRate: bigint;
+  fRate: bigint;
+}): PositionRates {
+  return { dRate: toRate(dRate), fRate: toRate(fRate) };
+}
@@ -0,0 +1,109 @@
+/**
+ * Signer resolution for `SecuredLine`. A line can sign with a raw private key,
+ * any viem `Account` (local, HD, keystore, smart account…), an existing
+ * `WalletClient`, or an injected EIP-1193 provider such as a browser wallet.
+ */
+
+import {
+  type Account,
+  type Address,
+  type Chain,
+  type EIP1193Provider,
+  type Hex,
+  type Transport,
+  type WalletClient,
+  createWalletClient,
+  custom,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { NoSignerError } from "./errors";
+
+type SignerFields = {
+  /** Hex-encoded ECDSA private key. */
+  privateKey: Hex;
+  /** Any viem account, e.g. from `accountFromMnemonic`. */
+  account: Account;
+  /** Existing wallet client; its account is requested if it has none. */
+  walletClient: WalletClient;
+  /** Injected EIP-1193 provider, e.g. `window.ethereum`. */
+  provider: EIP1193Provider;
+};
+
+type SignerOption<key extends keyof SignerFields> = Pick<SignerFields, key> & {
+  [other in Exclude<keyof SignerFields, key>]?: undefined;
+};
+
+/**
+ * The signer that becomes `msg.sender` for write actions. Exactly one of
+ * `privateKey`, `account`, `walletClient` or `provider` may be given.
+ */
+export type SignerOptions = {
+  [key in keyof SignerFields]: SignerOption<key>;
+}[keyof SignerFields];
+
+/**
+ * Signer options of an object that has no signer.
+ */
+export type NoSignerOptions = { [key in keyof SignerFields]?: undefined };
+
+/**
+ * Wallet client with a resolved account and chain, ready to send
+ * transactions.
+ */
+export type SignerClient = WalletClient<Transport, Chain, Account>;
+
+/**
+ * Builds a function that resolves the configured signer into a
+ * `SignerClient`, or `undefined` when no signer is configured. Resolution is
+ * deferred because injected providers must be asked for their account.
+ *
+ * @param options           Signer options passed by the caller.
+ * @param params.chain      Chain the line is deployed on.
+ * @param params.transport  Transport used to broadcast transactions signed by
+ *                          a local account.
+ */
+export function createSignerConnector(
+  options: SignerOptions | NoSignerOptions,
+  { chain, transport }: { chain: Chain; transport: Transport },
+): (() => Promise<SignerClient>) | undefined {
+  const { privateKey, account, walletClient, provider } = options;
+
+  if (privateKey || account) {
+    const localAccount = account ?? privateKeyToAccount(privateKey as Hex);
+    return async () =>
+      createWalletClient({ account: localAccount, chain, transport });
+  }
+
+  const injected = walletClient ?? provider;
+  if (!injected) {
+    return undefined;
+  }
+
+  return async () => {
+    const injectedTransport = custom(injected);
+    const address =
+      walletClient?.account ?? (await requestAddress(injectedTransport));
+
+    return createWalletClient({
+      account: address,
+      chain,
+      transport: injectedTransport,
+    });
+  };
+}
+
+/**
+ * Returns the first account exposed by an injected provider, prompting the
+ * user to connect when none is exposed yet.
+ */
+async function requestAddress(transport: Transport): Promise<Address> {
+  const client = createWalletClient({ transport });
+  const [connected] = await client.getAddresses();
+  const [address] = connected ? [connected] : await client.requestAddresses();
+
+  if (!address) {
+    throw new NoSignerError();
+  }
+  return address;
+}
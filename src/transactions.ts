@@ -0,0 +1,377 @@
+/**
+ * Lifecycle of a line transaction: pricing, broadcasting, waiting for
+ * confirmations, and replacing it at the same nonce to speed it up or
+ * cancel it.
+ *
+ * @example
+ * ```ts
+ * const tx = line.borrow({ positionId, amount });
+ * // Reprice if it is still pending after a minute; `tx` follows the
+ * // replacement and resolves once it is mined.
+ * const timer = setTimeout(
+ *   () => tx.speedUp({ type: "baseFeeMultiplier", multiplier: 4 }),
+ *   60_000,
+ * );
+ * try {
+ *   await tx;
+ * } finally {
+ *   clearTimeout(timer);
+ * }
+ * ```
+ */
+
+import {
+  type Abi,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  BaseError,
+  WaitForTransactionReceiptTimeoutError,
+  encodeFunctionData,
+  getContractError,
+} from "viem";
+
+import {
+  TransactionReplacedError,
+  TransactionRevertedError,
+  TransactionTimeoutError,
+  toLineError,
+} from "./errors";
+import { type FeeStrategy, type Fees, bumpFees, resolveFees } from "./fees";
+import { type NonceManager, getNonceManager } from "./nonces";
+import { type SignerClient } from "./signer";
+
+/**
+ * Options controlling how a write is priced and awaited. Per-call options
+ * override the line's `transactionOptions`.
+ */
+export type TransactionOptions = {
+  /**
+   * Blocks to wait for, counting the one the transaction is mined in.
+   * Defaults to `1`.
+   */
+  confirmations?: number;
+  /**
+   * Milliseconds to wait for the transaction to be mined before rejecting
+   * with `TransactionTimeoutError`. Defaults to viem's 180 seconds. The
+   * handle can still replace the transaction afterwards, but the rejected
+   * promise no longer follows it.
+   */
+  timeout?: number;
+  /** Fee strategy. Defaults to the fees estimated by the node. */
+  fees?: FeeStrategy;
+};
+
+/**
+ * Controls for a transaction that has been sent but not mined yet.
+ */
+export type TransactionHandle = {
+  /** Hash of the transaction as first broadcast. */
+  readonly hash: Promise<Hex>;
+  /**
+   * Rebroadcasts the transaction at the same nonce with higher fees: at
+   * least 12.5% above the pending ones, or those of `fees` if higher.
+   *
+   * @returns `Promise<Hex>` — the hash of the replacement.
+   */
+  speedUp(fees?: FeeStrategy): Promise<Hex>;
+  /**
+   * Replaces the transaction at the same nonce with an empty transfer to the
+   * signer, priced like `speedUp`. The write then rejects with
+   * `TransactionReplacedError`.
+   *
+   * @returns `Promise<Hex>` — the hash of the replacement.
+   */
+  cancel(fees?: FeeStrategy): Promise<Hex>;
+};
+
+/**
+ * A write in flight: awaits to the write's result and exposes a
+ * `TransactionHandle` to replace the transaction while it is pending.
+ */
+export type PendingTransaction<result> = Promise<result> & TransactionHandle;
+
+/**
+ * A transaction ready to be signed.
+ */
+export type TransactionRequest = {
+  to: Address;
+  data: Hex;
+  gas?: bigint;
+};
+
+type WriteMutability = "nonpayable" | "payable";
+
+/**
+ * A state-changing function of `abi` together with its arguments.
+ */
+export type ContractWriteCall<abi extends Abi> = {
+  [functionName in ContractFunctionName<abi, WriteMutability>]: {
+    functionName: functionName & string;
+    args: ContractFunctionArgs<abi, WriteMutability, functionName> &
+      readonly unknown[];
+  };
+}[ContractFunctionName<abi, WriteMutability>];
+
+/**
+ * A transaction ready to be signed, as built by the `prepare` callback of
+ * `submitTransaction`.
+ */
+type Prepared = {
+  walletClient: SignerClient;
+  request: TransactionRequest;
+  /**
+   * Decodes the error of replaying `request` if it reverts once mined.
+   * Defaults to returning it unchanged.
+   */
+  decodeRevert?: (error: unknown) => unknown;
+};
+
+type Sent = Prepared & {
+  hash: Hex;
+  /** Nonce manager of a local account, and the nonce it assigned. */
+  nonces: { manager: NonceManager; nonce: number } | undefined;
+};
+
+/**
+ * Prices, signs and broadcasts the request built by `prepare`, waits for it
+ * to be mined and hands the receipt to `onMined`.
+ *
+ * Transactions signed by a local account get their nonce from the account's
+ * shared `NonceManager`. Other signers, such as browser wallets, assign it
+ * themselves.
+ *
+ * A transaction mined with a reverted status rejects with
+ * `TransactionRevertedError`. The request is then replayed in the block it
+ * was mined in, and the revert that replay raises becomes the error's
+ * `cause`.
+ *
+ * @param params.publicClient  Client used to price and await the transaction.
+ * @param params.prepare       Resolves the signer and the request to send.
+ *                             Errors it throws reject the returned promise.
+ * @param params.onMined       Turns the receipt into the write's result.
+ * @param params.options       Confirmations, timeout and fee strategy.
+ *
+ * @throws `TransactionRevertedError` — If the transaction is mined but
+ *         reverts
+ */
+export function submitTransaction<result>({
+  publicClient,
+  prepare,
+  onMined,
+  options: { confirmations, timeout, fees } = {},
+}: {
+  publicClient: PublicClient;
+  prepare: () => Promise<Prepared>;
+  onMined: (receipt: TransactionReceipt) => result | Promise<result>;
+  options?: TransactionOptions;
+}): PendingTransaction<result> {
+  const sent: Promise<Sent> = (async () => {
+    const prepared = await prepare();
+    const { walletClient, request } = prepared;
+    const priced = {
+      ...request,
+      ...(fees ? await resolveFees(publicClient, fees) : {}),
+    };
+    const { account, chain } = walletClient;
+    if (account.type !== "local") {
+      const hash = await walletClient.sendTransaction(priced);
+      return { ...prepared, hash, nonces: undefined };
+    }
+
+    const manager = getNonceManager(chain.id, account.address);
+    const { hash, nonce } = await manager.send(publicClient, request, (nonce) =>
+      walletClient.sendTransaction({ ...priced, nonce }),
+    );
+    return { ...prepared, hash, nonces: { manager, nonce } };
+  })();
+  let latest = sent;
+
+  const mined = sent.then(async (transaction) => {
+    const { hash, nonces } = transaction;
+    let reason: "cancelled" | "replaced" | "repriced" | undefined;
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await publicClient.waitForTransactionReceipt({
+        hash,
+        confirmations,
+        timeout,
+        onReplaced: (replacement) => {
+          reason = replacement.reason;
+        },
+      });
+    } catch (error) {
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        // A dropped transaction leaves a gap the next send must fill.
+        await nonces?.manager.sync(publicClient);
+        throw new TransactionTimeoutError(hash, timeout ?? 180_000, error);
+      }
+      throw error;
+    }
+    nonces?.manager.confirm(nonces.nonce);
+
+    if (reason === "cancelled" || reason === "replaced") {
+      throw new TransactionReplacedError(hash, reason, receipt);
+    }
+    if (receipt.status === "reverted") {
+      throw new TransactionRevertedError(
+        hash,
+        receipt,
+        await replayRevert(publicClient, transaction, receipt.blockNumber),
+      );
+    }
+    return onMined(receipt);
+  });
+
+  const replace = async (
+    build: (sent: Sent) => TransactionRequest,
+    strategy: FeeStrategy | undefined,
+  ) => {
+    const previous = await latest;
+    const pending = await publicClient.getTransaction({ hash: previous.hash });
+    const request = build(previous);
+    const hash = await previous.walletClient.sendTransaction({
+      ...request,
+      nonce: pending.nonce,
+      ...bumpFees(
+        feesOf(pending),
+        strategy ? await resolveFees(publicClient, strategy) : undefined,
+      ),
+    });
+    previous.nonces?.manager.replace(pending.nonce, hash, request);
+    latest = Promise.resolve({ ...previous, request, hash });
+    return hash;
+  };
+
+  const hash = sent.then(({ hash }) => hash);
+  // Callers that only await the result must not see an unhandled rejection.
+  hash.catch(() => {});
+
+  return Object.assign(mined, {
+    hash,
+    speedUp: (strategy?: FeeStrategy) =>
+      replace(({ request }) => request, strategy),
+    cancel: (strategy?: FeeStrategy) =>
+      replace(
+        ({ walletClient }) => ({
+          to: walletClient.account.address,
+          data: "0x",
+          gas: 21_000n,
+        }),
+        strategy,
+      ),
+  });
+}
+
+/**
+ * Sends the contract call built by `prepare` through `submitTransaction`.
+ * Gas is estimated up front so that a revert surfaces before anything is
+ * broadcast, decoded by `toLineError` against `abi` for the contracts it
+ * knows. A transaction that still reverts once mined is decoded the same
+ * way, as the `cause` of its `TransactionRevertedError`.
+ *
+ * @param params.publicClient  Client used to estimate, price and await the
+ *                             transaction.
+ * @param params.address       Contract to call.
+ * @param params.abi           ABI the call is checked against.
+ * @param params.prepare       Resolves the signer and the call to send.
+ * @param params.onMined       Turns the receipt into the write's result.
+ * @param params.options       Confirmations, timeout and fee strategy.
+ */
+export function submitContractWrite<const abi extends Abi, result>({
+  publicClient,
+  address,
+  abi,
+  prepare,
+  onMined,
+  options,
+}: {
+  publicClient: PublicClient;
+  address: Address;
+  abi: abi;
+  prepare: () => Promise<{
+    walletClient: SignerClient;
+    call: ContractWriteCall<abi>;
+  }>;
+  onMined: (receipt: TransactionReceipt) => result | Promise<result>;
+  options: TransactionOptions;
+}): PendingTransaction<result> {
+  return submitTransaction({
+    publicClient,
+    prepare: async () => {
+      const { walletClient, call } = await prepare();
+      // `ContractWriteCall` has checked the call against `abi`. viem cannot
+      // relate the functions of a generic ABI to their arguments, so the
+      // call is widened from here on.
+      const {
+        functionName,
+        args,
+      }: { functionName: string; args: readonly unknown[] } = call;
+      const contract: { abi: Abi } = { abi };
+      const contractCall = { ...contract, functionName, args };
+
+      let gas: bigint;
+      try {
+        gas = await publicClient.estimateContractGas({
+          ...contractCall,
+          address,
+          account: walletClient.account,
+        });
+      } catch (error) {
+        throw toLineError(error, abi);
+      }
+
+      return {
+        walletClient,
+        request: { to: address, data: encodeFunctionData(contractCall), gas },
+        decodeRevert: (error) =>
+          error instanceof BaseError
+            ? toLineError(
+                getContractError(error, { ...contractCall, address }),
+                abi,
+              )
+            : error,
+      };
+    },
+    onMined,
+    options,
+  });
+}
+
+/**
+ * Replays the request of a reverted transaction in the block it was mined in
+ * and returns the error the replay raises, decoded by the transaction's
+ * `decodeRevert`, or `undefined` if the replay succeeds.
+ */
+async function replayRevert(
+  publicClient: PublicClient,
+  { walletClient, request, decodeRevert = (error) => error }: Sent,
+  blockNumber: bigint,
+): Promise<unknown> {
+  try {
+    await publicClient.call({
+      account: walletClient.account.address,
+      to: request.to,
+      data: request.data,
+      blockNumber,
+    });
+    return undefined;
+  } catch (error) {
+    return decodeRevert(error);
+  }
+}
+
+function feesOf(transaction: {
+  maxFeePerGas?: bigint | undefined;
+  maxPriorityFeePerGas?: bigint | undefined;
+  gasPrice?: bigint | undefined;
+}): Fees {
+  return {
+    maxFeePerGas: transaction.maxFeePerGas ?? transaction.gasPrice ?? 0n,
+    maxPriorityFeePerGas:
+      transaction.maxPriorityFeePerGas ?? transaction.gasPrice ?? 0n,
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Chain and transport resolution for `SecuredLine`. Reads and writes go
+ * through the same endpoint: a single RPC URL, a ranked fallback list of URLs,
+ * a caller-built viem `Transport`, or an existing `PublicClient`.
+ */
+
+import {
+  type Chain,
+  type PublicClient,
+  type Transport,
+  custom,
+  fallback,
+  http,
+  webSocket,
+} from "viem";
+import * as Chains from "viem/chains";
+
+import { UnsupportedChainError } from "./errors";
+
+/**
+ * Key of `viem/chains`, e.g. `"mainnet"`, `"base"`.
+ */
+export type ChainId = keyof typeof Chains;
+
+/**
+ * Where a line sends its JSON-RPC requests. Exactly one of `rpcUrl`,
+ * `transport` or `publicClient` may be given.
+ */
+export type EndpointOptions =
+  | {
+      /**
+       * HTTP(S) or WebSocket endpoint, or a list of endpoints tried in order
+       * through a viem `fallback` transport.
+       */
+      rpcUrl: string | readonly string[];
+      /**
+       * With several `rpcUrl`s, periodically rank them by latency and
+       * stability instead of using the list order.
+       */
+      rank?: boolean;
+      transport?: undefined;
+      publicClient?: undefined;
+    }
+  | {
+      /** Any viem transport, e.g. `fallback([webSocket(…), http(…)])`. */
+      transport: Transport;
+      rpcUrl?: undefined;
+      rank?: undefined;
+      publicClient?: undefined;
+    }
+  | {
+      /** Existing public client; writes are broadcast through it as well. */
+      publicClient: PublicClient;
+      rpcUrl?: undefined;
+      rank?: undefined;
+      transport?: undefined;
+    };
+
+/**
+ * Looks up a chain in `viem/chains`.
+ *
+ * @throws `UnsupportedChainError` — If `chainId` is not a `viem/chains` key.
+ */
+export function resolveChain(chainId: ChainId): Chain {
+  const chain: unknown = Object.prototype.hasOwnProperty.call(Chains, chainId)
+    ? Chains[chainId]
+    : undefined;
+
+  if (!chain || typeof chain !== "object" || !("id" in chain)) {
+    throw new UnsupportedChainError(chainId);
+  }
+  return chain as Chain;
+}
+
+/**
+ * Builds the transport described by `options`.
+ */
+export function createTransport(options: EndpointOptions): Transport {
+  if (options.publicClient) {
+    return custom(options.publicClient);
+  }
+  if (options.transport) {
+    return options.transport;
+  }
+
+  const urls =
+    typeof options.rpcUrl === "string" ? [options.rpcUrl] : options.rpcUrl;
+  const transports = urls.map((url) =>
+    /^wss?:\/\//i.test(url) ? webSocket(url) : http(url),
+  );
+
+  if (transports.length === 1) {
+    return transports[0] as Transport;
+  }
+  return fallback(transports, { rank: options.rank ?? false });
+}
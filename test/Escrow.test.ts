@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Hex,
+  type TransactionReceipt,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeErrorResult,
+} from "viem";
+import {
+  Escrow,
+  EscrowRevertError,
+  NoSignerError,
+  UnderCollateralizedError,
+} from "../src";
+import EscrowABI from "../src/contracts/abis/Escrow";
+import { fakePublicClient, fakeSignerClient } from "./fakes";
+
+const ESCROW = "0x00000000000000000000000000000000000000ee";
+const WETH = "0x4200000000000000000000000000000000000006";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+const publicClient = fakePublicClient({
+  getBlockNumber: async () => 42n,
+  contracts: ({ functionName, args: [token] }) => {
+    if (functionName === "getEnabledTokens") return [WETH, USDC];
+    if (functionName === "minimumCollateralRatio") return 3_000;
+    if (functionName === "getCollateralRatio") return 15_000n;
+    return {
+      amount: token === WETH ? 10n ** 18n : 0n,
+      isERC4626: false,
+      asset: token,
+      assetDecimals: token === WETH ? 18 : 6,
+    };
+  },
+});
+
+describe("Escrow", () => {
+  const escrow = new Escrow({ address: ESCROW, publicClient });
+
+  it("reads the deposit of every enabled token", async () => {
+    expect(await escrow.getDeposits()).toEqual([
+      {
+        token: WETH,
+        amount: 10n ** 18n,
+        isERC4626: false,
+        asset: WETH,
+        assetDecimals: 18,
+      },
+      {
+        token: USDC,
+        amount: 0n,
+        isERC4626: false,
+        asset: USDC,
+        assetDecimals: 6,
+      },
+    ]);
+  });
+
+  it("reads the current and minimum collateral ratios", async () => {
+    expect(await escrow.getCollateralRatio()).toBe(15_000n);
+    expect(await escrow.getMinimumCollateralRatio()).toBe(3_000);
+  });
+
+  it("refuses to write without a signer", async () => {
+    await expect(
+      escrow.deposit({ token: WETH, amount: 1n }),
+    ).rejects.toBeInstanceOf(NoSignerError);
+  });
+
+  it("decodes escrow reverts", async () => {
+    const args = [1n, WETH, USDC] as const;
+    const revert = new ContractFunctionExecutionError(
+      new ContractFunctionRevertedError({
+        abi: EscrowABI,
+        data: encodeErrorResult({
+          abi: EscrowABI,
+          errorName: "UnderCollateralized",
+        }),
+        functionName: "releaseCollateral",
+      }),
+      {
+        abi: EscrowABI,
+        args,
+        contractAddress: ESCROW,
+        functionName: "releaseCollateral",
+      },
+    );
+    const signer = new Escrow({
+      address: ESCROW,
+      publicClient: fakePublicClient({
+        estimateContractGas: async () => {
+          throw revert;
+        },
+      }),
+      walletClient: fakeSignerClient({
+        account: { address: USDC, type: "json-rpc" },
+      }),
+    });
+
+    const error = await signer
+      .withdraw({ token: WETH, amount: 1n, to: USDC })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(UnderCollateralizedError);
+    expect(error).toBeInstanceOf(EscrowRevertError);
+    expect(error).toMatchObject({
+      code: "UNDER_COLLATERALIZED",
+      errorName: "UnderCollateralized",
+      cause: revert,
+    });
+  });
+
+  it("sends the approval with the deposit's options", async () => {
+    const sent: Hex[] = [];
+    const confirmations: (number | undefined)[] = [];
+    const signer = new Escrow({
+      address: ESCROW,
+      publicClient: fakePublicClient({
+        contracts: ({ functionName }) =>
+          functionName === "balanceOf" ? 10n ** 18n : 0n,
+        estimateContractGas: async () => 100_000n,
+        waitForTransactionReceipt: async (params) => {
+          confirmations.push(params.confirmations);
+          return {
+            status: "success",
+            transactionHash: params.hash,
+          } as TransactionReceipt;
+        },
+      }),
+      walletClient: fakeSignerClient({
+        account: { address: USDC, type: "json-rpc" },
+        sendTransaction: async ({ to }) => {
+          sent.push(to!);
+          return `0x${String(sent.length).padStart(64, "0")}` as Hex;
+        },
+      }),
+      transactionOptions: { confirmations: 1 },
+    });
+
+    await signer.deposit({
+      token: WETH,
+      amount: 1n,
+      approve: "exact",
+      confirmations: 3,
+      fees: { type: "fixed", maxFeePerGas: 5n, maxPriorityFeePerGas: 1n },
+    });
+
+    expect(sent).toEqual([WETH, ESCROW]);
+    expect(confirmations).toEqual([3, 3]);
+  });
+});
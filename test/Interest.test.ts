@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { ONE_YEAR, calculateInterestOwed, projectInterest } from "../src";
+
+const position = {
+  deposit: 1_000_000_000n, // 1,000 USDC
+  principal: 400_000_000n, // 400 USDC drawn
+  interestAccrued: 5_000_000n,
+  dRate: 1_000n, // 10%
+  fRate: 100n, // 1%
+  lastAccrued: 1_700_000_000n,
+};
+
+describe("calculateInterestOwed", () => {
+  it("charges the bps rate over a 365.25 day year", () => {
+    expect(calculateInterestOwed(1_000n, 1_000_000n, ONE_YEAR)).toBe(100_000n);
+    expect(calculateInterestOwed(1_000n, 1_000_000n, ONE_YEAR / 2n)).toBe(
+      50_000n,
+    );
+  });
+
+  it("rounds down", () => {
+    expect(calculateInterestOwed(1n, 1n, ONE_YEAR - 1n)).toBe(0n);
+  });
+});
+
+describe("projectInterest", () => {
+  it("adds drawn and facility interest since the last accrual", () => {
+    expect(projectInterest(position, position.lastAccrued + ONE_YEAR)).toEqual({
+      timestamp: position.lastAccrued + ONE_YEAR,
+      drawnInterest: 40_000_000n,
+      facilityInterest: 6_000_000n,
+      interestAccrued: 51_000_000n,
+    });
+  });
+
+  it("projects nothing new before the last accrual", () => {
+    expect(
+      projectInterest(position, position.lastAccrued - 60n).interestAccrued,
+    ).toBe(position.interestAccrued);
+  });
+});
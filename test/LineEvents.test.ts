@@ -0,0 +1,317 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Log,
+  RpcRequestError,
+  encodeEventTopics,
+  hexToBigInt,
+  numberToHex,
+} from "viem";
+import {
+  type LineEvent,
+  type WatchCursor,
+  getLineEvents,
+  watchLineEvents,
+} from "../src";
+import SecuredLineABI from "../src/contracts/abis/SecuredLine";
+import { LINE_ADDRESS, TEST_ADDRESS } from "./constants";
+import { blockNumberOf, fakePublicClient } from "./fakes";
+
+const borrowLog = (
+  blockNumber: bigint,
+  id: bigint,
+  blockHash: Log["blockHash"] = numberToHex(blockNumber, { size: 32 }),
+): Log => ({
+  address: LINE_ADDRESS,
+  blockHash,
+  blockNumber,
+  data: "0x",
+  logIndex: 0,
+  removed: false,
+  topics: encodeEventTopics({
+    abi: SecuredLineABI,
+    eventName: "Borrow",
+    args: { id, amount: 1_000_000n, to: TEST_ADDRESS },
+  }) as Log["topics"],
+  transactionHash: numberToHex(blockNumber, { size: 32 }),
+  transactionIndex: 0,
+});
+
+const logsBetween = (logs: Log[], fromBlock: bigint, toBlock: bigint) =>
+  logs.filter(
+    ({ blockNumber }) =>
+      blockNumber !== null &&
+      blockNumber >= fromBlock &&
+      blockNumber <= toBlock,
+  );
+
+const rangeLimitError = () =>
+  new RpcRequestError({
+    body: {},
+    url: "",
+    error: { code: -32600, message: "block range exceeds 500" },
+  });
+
+const fakeClient = (logs: Log[], maxRange: bigint) => {
+  const ranges: [bigint, bigint][] = [];
+  const headers = { inFlight: 0, maxInFlight: 0, requested: 0 };
+  const client = fakePublicClient({
+    getBlock: async (params) => {
+      headers.requested += 1;
+      headers.inFlight += 1;
+      headers.maxInFlight = Math.max(headers.maxInFlight, headers.inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      headers.inFlight -= 1;
+      const number = params?.blockHash ? hexToBigInt(params.blockHash) : 2_000n;
+      return { number, timestamp: number * 2n };
+    },
+    getLogs: async (params) => {
+      const fromBlock = blockNumberOf(params?.fromBlock);
+      const toBlock = blockNumberOf(params?.toBlock);
+      if (toBlock - fromBlock + 1n > maxRange) {
+        throw rangeLimitError();
+      }
+      ranges.push([fromBlock, toBlock]);
+      return logsBetween(logs, fromBlock, toBlock);
+    },
+  });
+  return { client, ranges, headers };
+};
+
+describe("getLineEvents", () => {
+  it("pages through the range in chunks", async () => {
+    const { client, ranges } = fakeClient([], 1_000n);
+
+    await getLineEvents(client, LINE_ADDRESS, {
+      fromBlock: 0n,
+      toBlock: 2_499n,
+      chunkSize: 1_000n,
+    });
+
+    expect(ranges).toEqual([
+      [0n, 999n],
+      [1_000n, 1_999n],
+      [2_000n, 2_499n],
+    ]);
+  });
+
+  it("shrinks chunks the provider rejects as too large", async () => {
+    const { client, ranges } = fakeClient([], 500n);
+
+    await getLineEvents(client, LINE_ADDRESS, {
+      fromBlock: 0n,
+      toBlock: 999n,
+      chunkSize: 2_000n,
+    });
+
+    expect(ranges).toEqual([
+      [0n, 499n],
+      [500n, 999n],
+    ]);
+  });
+
+  it("lets a rate limit through instead of shrinking chunks", async () => {
+    const ranges: bigint[][] = [];
+    const client = fakePublicClient({
+      getLogs: async (params) => {
+        ranges.push([
+          blockNumberOf(params?.fromBlock),
+          blockNumberOf(params?.toBlock),
+        ]);
+        throw new RpcRequestError({
+          body: {},
+          url: "",
+          error: { code: 429, message: "rate limit exceeded" },
+        });
+      },
+    });
+
+    await expect(
+      getLineEvents(client, LINE_ADDRESS, {
+        fromBlock: 0n,
+        toBlock: 999n,
+        chunkSize: 1_000n,
+      }),
+    ).rejects.toThrowError(/rate limit/);
+    expect(ranges).toEqual([[0n, 999n]]);
+  });
+
+  it("decodes events with their timestamp and filters by position", async () => {
+    const { client } = fakeClient(
+      [borrowLog(10n, 8n), borrowLog(20n, 9n), borrowLog(1_500n, 8n)],
+      1_000n,
+    );
+
+    const events = await getLineEvents(client, LINE_ADDRESS, {
+      fromBlock: 0n,
+      types: ["Borrow"],
+      positionId: 8n,
+    });
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      eventName: "Borrow",
+      args: { id: 8n, amount: 1_000_000n, to: TEST_ADDRESS },
+      blockNumber: 10n,
+      timestamp: 20n,
+      transactionHash: numberToHex(10n, { size: 32 }),
+    });
+    expect(events[1]?.timestamp).toBe(3_000n);
+  });
+
+  it("reads each block header once, a few at a time", async () => {
+    const { client, headers } = fakeClient(
+      Array.from({ length: 30 }, (_, i) => [
+        borrowLog(BigInt(i), 8n),
+        { ...borrowLog(BigInt(i), 9n), logIndex: 1 },
+      ]).flat(),
+      1_000n,
+    );
+
+    const events = await getLineEvents(client, LINE_ADDRESS, {
+      fromBlock: 0n,
+      toBlock: 999n,
+    });
+
+    expect(events).toHaveLength(60);
+    expect(headers.requested).toBe(30);
+    expect(headers.maxInFlight).toBeLessThanOrEqual(8);
+  });
+});
+
+// A chain whose logs and head can be rewritten to simulate reorgs.
+const fakeChain = () => {
+  const chain = {
+    logs: [] as Log[],
+    emit: (() => {}) as (blockNumber: bigint) => void,
+  };
+  const client = fakePublicClient({
+    getBlock: async (params) => {
+      const number = hexToBigInt(params?.blockHash ?? "0x0");
+      return { number, timestamp: number * 2n };
+    },
+    getLogs: async (params) =>
+      logsBetween(
+        chain.logs,
+        blockNumberOf(params?.fromBlock),
+        blockNumberOf(params?.toBlock),
+      ),
+    watchBlockNumber: ({ onBlockNumber }) => {
+      chain.emit = (blockNumber) => onBlockNumber(blockNumber, undefined);
+      return () => {};
+    },
+  });
+  return { chain, client };
+};
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe("watchLineEvents", () => {
+  it("delivers events once they have enough confirmations", async () => {
+    const { chain, client } = fakeChain();
+    const received: WatchCursor[] = [];
+    watchLineEvents(
+      client,
+      LINE_ADDRESS,
+      { Borrow: (_, cursor) => void received.push(cursor) },
+      { confirmations: 3 },
+    );
+
+    chain.emit(100n);
+    await settle();
+    chain.logs.push(borrowLog(101n, 8n));
+    chain.emit(102n);
+    await settle();
+    expect(received).toEqual([]);
+
+    chain.emit(103n);
+    await settle();
+    expect(received).toEqual([{ blockNumber: 101n, logIndex: 0 }]);
+
+    chain.emit(104n);
+    await settle();
+    expect(received).toHaveLength(1);
+  });
+
+  it("reports events a reorg removed and delivers their replacement", async () => {
+    const { chain, client } = fakeChain();
+    const received: LineEvent[] = [];
+    const removed: LineEvent[] = [];
+    watchLineEvents(
+      client,
+      LINE_ADDRESS,
+      { Borrow: (event) => void received.push(event) },
+      { onRemoved: (event) => void removed.push(event) },
+    );
+
+    chain.emit(100n);
+    await settle();
+    chain.logs = [borrowLog(101n, 8n, `0x${"a".repeat(64)}`)];
+    chain.emit(101n);
+    await settle();
+    chain.logs = [borrowLog(102n, 8n, `0x${"b".repeat(64)}`)];
+    chain.emit(102n);
+    await settle();
+
+    expect(removed).toHaveLength(1);
+    expect(removed[0]).toMatchObject({ blockNumber: 101n, removed: true });
+    expect(received.map((event) => event.blockNumber)).toEqual([101n, 102n]);
+  });
+
+  it("resumes after a persisted cursor", async () => {
+    const { chain, client } = fakeChain();
+    const received: WatchCursor[] = [];
+    chain.logs = [
+      { ...borrowLog(50n, 8n), logIndex: 0 },
+      { ...borrowLog(50n, 8n), logIndex: 1 },
+      borrowLog(60n, 8n),
+    ];
+    watchLineEvents(
+      client,
+      LINE_ADDRESS,
+      { Borrow: (_, cursor) => void received.push(cursor) },
+      { cursor: { blockNumber: 50n, logIndex: 0 } },
+    );
+
+    chain.emit(100n);
+    await settle();
+
+    expect(received).toEqual([
+      { blockNumber: 50n, logIndex: 1 },
+      { blockNumber: 60n, logIndex: 0 },
+    ]);
+  });
+
+  it("retries an event whose handler failed before later events", async () => {
+    const { chain, client } = fakeChain();
+    const received: WatchCursor[] = [];
+    const errors: unknown[] = [];
+    let failures = 1;
+    chain.logs = [borrowLog(101n, 8n), borrowLog(102n, 8n)];
+    watchLineEvents(
+      client,
+      LINE_ADDRESS,
+      {
+        Borrow: (_, cursor) => {
+          if (failures-- > 0) throw new Error("handler failed");
+          received.push(cursor);
+        },
+      },
+      {
+        cursor: { blockNumber: 100n, logIndex: 0 },
+        onError: errors.push.bind(errors),
+      },
+    );
+
+    chain.emit(102n);
+    await settle();
+    expect(errors).toHaveLength(1);
+    expect(received).toEqual([]);
+
+    chain.emit(103n);
+    await settle();
+    expect(received).toEqual([
+      { blockNumber: 101n, logIndex: 0 },
+      { blockNumber: 102n, logIndex: 0 },
+    ]);
+  });
+});
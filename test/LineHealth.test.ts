@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  type LineSnapshot,
+  LineStatus,
+  checkLineHealth,
+  getPositionDeadlines,
+} from "../src";
+import { fakePublicClient } from "./fakes";
+
+const LINE = "0x00000000000000000000000000000000000000bb";
+
+const fakeClient = (status: LineStatus, predicted: LineStatus) =>
+  fakePublicClient({
+    getBlockNumber: async () => 42n,
+    contracts: ({ functionName }) =>
+      functionName === "healthcheck" ? predicted : status,
+  });
+
+describe("checkLineHealth", () => {
+  it("predicts an active line turning liquidatable", async () => {
+    expect(
+      await checkLineHealth(
+        fakeClient(LineStatus.Active, LineStatus.Liquidatable),
+        LINE,
+      ),
+    ).toEqual({
+      blockNumber: 42n,
+      status: LineStatus.Active,
+      predicted: LineStatus.Liquidatable,
+      willBeLiquidatable: true,
+    });
+  });
+
+  it("reports a healthy line", async () => {
+    const health = await checkLineHealth(
+      fakeClient(LineStatus.Active, LineStatus.Active),
+      LINE,
+    );
+    expect(health.willBeLiquidatable).toBe(false);
+  });
+});
+
+describe("getPositionDeadlines", () => {
+  it("measures time to each deadline, soonest first", () => {
+    const snapshot = {
+      positions: [
+        { id: 1n, deadline: 2_000n },
+        { id: 2n, deadline: 900n },
+        { id: 3n, deadline: 1_000n },
+      ],
+    } as LineSnapshot;
+
+    expect(getPositionDeadlines(snapshot, 1_000n)).toEqual([
+      { id: 2n, deadline: 900n, secondsRemaining: -100n, isPastDeadline: true },
+      { id: 3n, deadline: 1_000n, secondsRemaining: 0n, isPastDeadline: true },
+      {
+        id: 1n,
+        deadline: 2_000n,
+        secondsRemaining: 1_000n,
+        isPastDeadline: false,
+      },
+    ]);
+  });
+});
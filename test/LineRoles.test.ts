@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { LINE_PERMISSIONS, canCall, hasLineRole, readLineRoles } from "../src";
+import { fakePublicClient } from "./fakes";
+
+const LINE = "0x00000000000000000000000000000000000000bb";
+const BORROWER = "0x0000000000000000000000000000000000000001";
+const ADMIN = "0x0000000000000000000000000000000000000002";
+const LENDER = "0x0000000000000000000000000000000000000003";
+const OTHER = "0x0000000000000000000000000000000000000004";
+
+const values: Record<string, (args: readonly unknown[]) => unknown> = {
+  counts: () => [2n, 2n],
+  borrower: () => BORROWER,
+  admin: () => ADMIN,
+  otcSwapServicer: () => ADMIN,
+  isServicer: () => false,
+  tokenContract: () => "0x00000000000000000000000000000000000000cc",
+  ids: ([index]) => [7n, 9n][Number(index)],
+  // Position 3 is closed, so no longer listed in `ids`.
+  ownerOf: ([id]) => (id === 7n ? OTHER : LENDER),
+};
+
+const fakeClient = fakePublicClient({
+  getBlockNumber: async () => 42n,
+  contracts: ({ functionName, args }) => values[functionName]?.(args),
+});
+
+describe("readLineRoles", () => {
+  it("reads the roles of the borrower", async () => {
+    expect(await readLineRoles(fakeClient, LINE, BORROWER)).toEqual({
+      address: BORROWER,
+      blockNumber: 42n,
+      borrower: true,
+      admin: false,
+      servicer: false,
+      otcSwapServicer: false,
+      lender: false,
+      positionIds: [],
+    });
+  });
+
+  it("finds the positions a lender holds the token of", async () => {
+    const roles = await readLineRoles(fakeClient, LINE, LENDER);
+    expect(roles.lender).toBe(true);
+    expect(roles.positionIds).toEqual([9n]);
+  });
+
+  it("reads the lender of one position from its token", async () => {
+    expect((await readLineRoles(fakeClient, LINE, LENDER, 3n)).lender).toBe(
+      true,
+    );
+    expect((await readLineRoles(fakeClient, LINE, LENDER, 7n)).lender).toBe(
+      false,
+    );
+  });
+});
+
+describe("hasLineRole", () => {
+  const reads: string[] = [];
+  const countingClient = fakePublicClient({
+    contracts: ({ functionName, args }) => {
+      reads.push(functionName);
+      return values[functionName]?.(args);
+    },
+  });
+
+  it("reads only the roles asked for", async () => {
+    reads.length = 0;
+    expect(
+      await hasLineRole(countingClient, LINE, BORROWER, [
+        "borrower",
+        "servicer",
+      ]),
+    ).toBe(true);
+    expect(reads.sort()).toEqual(["borrower", "isServicer"]);
+  });
+
+  it("reads the lender of one position from its token alone", async () => {
+    reads.length = 0;
+    expect(
+      await hasLineRole(countingClient, LINE, LENDER, ["lender"], 3n),
+    ).toBe(true);
+    expect(
+      await hasLineRole(countingClient, LINE, LENDER, ["lender"], 7n),
+    ).toBe(false);
+    expect(new Set(reads)).toEqual(new Set(["tokenContract", "ownerOf"]));
+  });
+});
+
+describe("canCall", () => {
+  it("allows a write to any of its roles", async () => {
+    const admin = await readLineRoles(fakeClient, LINE, ADMIN);
+    expect(admin).toMatchObject({ admin: true, otcSwapServicer: true });
+    expect(canCall(admin, "setFees")).toBe(true);
+    expect(canCall(admin, "borrow")).toBe(false);
+    expect(canCall(admin, "repay")).toBe(true);
+  });
+
+  it("maps every write to its roles", () => {
+    expect(LINE_PERMISSIONS.withdraw).toEqual(["lender"]);
+    expect(LINE_PERMISSIONS.updateBorrower).toContain("borrower");
+  });
+});
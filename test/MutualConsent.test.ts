@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { concat, decodeFunctionData, keccak256 } from "viem";
+import {
+  computeProposalId,
+  encodeAddCreditProposal,
+  encodeRefinanceCreditProposal,
+} from "../src";
+import SecuredLineABI from "../src/contracts/abis/SecuredLine";
+import { TEST_ADDRESS, USDC_TOKEN_ADDRESS } from "./constants";
+
+describe("MutualConsent", () => {
+  it("encodes addCredit proposals with the desired nonce", () => {
+    const proposal = encodeAddCreditProposal({
+      nonce: 3n,
+      dRate: 1000n,
+      fRate: 100n,
+      amount: 1_000_000n,
+      token: USDC_TOKEN_ADDRESS,
+      lender: TEST_ADDRESS,
+      isRestricted: false,
+      earlyWithdrawalFee: 25,
+      deadline: 1767225600n,
+    });
+
+    const decoded = decodeFunctionData({
+      abi: SecuredLineABI,
+      data: proposal.data,
+    });
+    expect(decoded.functionName).toBe("addCredit");
+    expect(decoded.args).toEqual([
+      3n,
+      1000n,
+      100n,
+      1_000_000n,
+      USDC_TOKEN_ADDRESS,
+      TEST_ADDRESS,
+      false,
+      25,
+      1767225600n,
+    ]);
+  });
+
+  it("encodes refinanceCredit proposals with the desired nonce", () => {
+    const proposal = encodeRefinanceCreditProposal({
+      nonce: 0n,
+      positionId: 8n,
+      amount: 0n,
+      dRate: 1200n,
+      fRate: 150n,
+      deadline: 1767225600n,
+    });
+
+    const decoded = decodeFunctionData({
+      abi: SecuredLineABI,
+      data: proposal.data,
+    });
+    expect(decoded.functionName).toBe("refinanceCredit");
+    expect(decoded.args).toEqual([0n, 8n, 0n, 1200n, 150n, 1767225600n]);
+  });
+
+  it("computes proposal ids from calldata and proposer", () => {
+    const proposal = encodeRefinanceCreditProposal({
+      nonce: 0n,
+      positionId: 8n,
+      amount: 0n,
+      dRate: 1200n,
+      fRate: 150n,
+      deadline: 1767225600n,
+    });
+
+    expect(computeProposalId(proposal, TEST_ADDRESS)).toBe(
+      keccak256(concat([proposal.data, TEST_ADDRESS])),
+    );
+    expect(computeProposalId(proposal, USDC_TOKEN_ADDRESS)).not.toBe(
+      computeProposalId(proposal, TEST_ADDRESS),
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  type LineSnapshot,
+  type PositionSnapshot,
+  LineStatus,
+  ONE_YEAR,
+  RepayAmountExceedsDebtError,
+  quotePayoff,
+  splitRepayment,
+  toPositionRates,
+} from "../src";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const WETH = "0x4200000000000000000000000000000000000006";
+const NOW = 1_700_000_000n;
+
+const position = (
+  id: bigint,
+  overrides: Partial<Omit<PositionSnapshot, "rates">>,
+): PositionSnapshot => {
+  const fields: Omit<PositionSnapshot, "rates"> = {
+    id,
+    tokenId: id,
+    deposit: 1_000_000_000n,
+    principal: 0n,
+    interestAccrued: 0n,
+    interestRepaid: 0n,
+    decimals: 6,
+    token: USDC,
+    isOpen: true,
+    isRestricted: false,
+    earlyWithdrawalFee: 0,
+    deadline: NOW + ONE_YEAR,
+    dRate: 1_000n,
+    fRate: 0n,
+    lastAccrued: NOW,
+    availableAssets: 0n,
+    claimableInterest: 0n,
+    ...overrides,
+  };
+  return { ...fields, rates: toPositionRates(fields) };
+};
+
+// Queue: 1 and 2 have principal, 3 is undrawn.
+const snapshot: LineSnapshot = {
+  blockNumber: 100n,
+  status: LineStatus.Active,
+  borrower: "0x0000000000000000000000000000000000000001",
+  admin: "0x0000000000000000000000000000000000000002",
+  otcSwapServicer: "0x0000000000000000000000000000000000000003",
+  fees: { originationFee: 0, swapFee: 0, servicingFee: 2_000 },
+  positions: [
+    position(1n, { principal: 100_000_000n, interestAccrued: 1_000_000n }),
+    position(2n, { principal: 50_000_000n, token: WETH }),
+    position(3n, { fRate: 100n }),
+  ],
+};
+
+describe("quotePayoff", () => {
+  it("closes every position ahead of a drawn position first", () => {
+    const quote = quotePayoff(snapshot, {
+      timestamp: NOW + ONE_YEAR,
+      positionId: 2n,
+    });
+
+    expect(quote.steps).toEqual([
+      {
+        id: 1n,
+        token: USDC,
+        method: "depositAndClose",
+        principal: 100_000_000n,
+        interest: 11_000_000n,
+        servicingFee: 2_200_000n,
+        amount: 111_000_000n,
+      },
+      {
+        id: 2n,
+        token: WETH,
+        method: "depositAndClose",
+        principal: 50_000_000n,
+        interest: 5_000_000n,
+        servicingFee: 1_000_000n,
+        amount: 55_000_000n,
+      },
+    ]);
+    expect(quote.totals).toEqual([
+      { token: USDC, amount: 111_000_000n },
+      { token: WETH, amount: 55_000_000n },
+    ]);
+  });
+
+  it("closes an undrawn position on its own", () => {
+    const { steps } = quotePayoff(snapshot, {
+      timestamp: NOW + ONE_YEAR,
+      positionId: 3n,
+    });
+
+    expect(steps).toEqual([
+      expect.objectContaining({
+        id: 3n,
+        method: "close",
+        interest: 10_000_000n,
+      }),
+    ]);
+  });
+
+  it("quotes the whole line by default", () => {
+    const { steps } = quotePayoff(snapshot, { timestamp: NOW });
+    expect(steps.map(({ id }) => id)).toEqual([1n, 2n, 3n]);
+  });
+
+  it("rejects a position that is not open", () => {
+    expect(() =>
+      quotePayoff(snapshot, { timestamp: NOW, positionId: 9n }),
+    ).toThrowError("position 9 is not open on the line");
+  });
+});
+
+describe("splitRepayment", () => {
+  it("repays interest before principal", () => {
+    expect(splitRepayment(snapshot, 21_000_000n, NOW + ONE_YEAR)).toEqual({
+      id: 1n,
+      token: USDC,
+      interest: 11_000_000n,
+      principal: 10_000_000n,
+      servicingFee: 2_200_000n,
+      remainingInterest: 0n,
+      remainingPrincipal: 90_000_000n,
+    });
+  });
+
+  it("rejects more than the head position owes", () => {
+    expect(() => splitRepayment(snapshot, 101_000_001n, NOW)).toThrowError(
+      RepayAmountExceedsDebtError,
+    );
+  });
+});
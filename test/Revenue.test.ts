@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  type QuoteRequest,
+  PriceImpactTooHighError,
+  createStubQuoteProvider,
+  quoteRevenueTrade,
+  readSpigotRevenue,
+} from "../src";
+import { fakePublicClient } from "./fakes";
+
+const LINE = "0x00000000000000000000000000000000000000bb";
+const SPIGOT = "0x00000000000000000000000000000000000000cc";
+const WETH = "0x4200000000000000000000000000000000000006";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+const request: QuoteRequest = {
+  chainId: 8453,
+  taker: LINE,
+  sellToken: WETH,
+  buyToken: USDC,
+  sellAmount: 10n ** 18n,
+};
+
+describe("createStubQuoteProvider", () => {
+  it("quotes the requested sale", async () => {
+    const provider = createStubQuoteProvider({
+      buyAmount: ({ sellAmount }) => (sellAmount * 3_000n) / 10n ** 12n,
+      priceImpact: 25n,
+      data: "0xdeadbeef",
+    });
+
+    expect(await provider(request)).toEqual({
+      sellToken: WETH,
+      buyToken: USDC,
+      sellAmount: 10n ** 18n,
+      buyAmount: 3_000_000_000n,
+      priceImpact: 25n,
+      data: "0xdeadbeef",
+    });
+  });
+});
+
+describe("quoteRevenueTrade", () => {
+  it("accepts a quote within the allowed price impact", async () => {
+    const provider = createStubQuoteProvider({ priceImpact: 100n });
+    const quote = await quoteRevenueTrade(provider, request, 100n);
+    expect(quote.priceImpact).toBe(100n);
+  });
+
+  it("rejects a quote above the allowed price impact", async () => {
+    const provider = createStubQuoteProvider({ priceImpact: 101n });
+    const error = await quoteRevenueTrade(provider, request, 100n).catch(
+      (error: unknown) => error,
+    );
+
+    expect(error).toBeInstanceOf(PriceImpactTooHighError);
+    expect(error).toMatchObject({
+      priceImpact: 101n,
+      allowedPriceImpact: 100n,
+    });
+  });
+
+  it("rejects a quote for another sale", async () => {
+    const provider = async () => ({
+      ...(await createStubQuoteProvider()(request)),
+      sellAmount: 1n,
+    });
+    await expect(quoteRevenueTrade(provider, request, 100n)).rejects.toThrow(
+      /expected 1000000000000000000/,
+    );
+  });
+});
+
+describe("readSpigotRevenue", () => {
+  it("reads claimable, tradeable and unused amounts per token", async () => {
+    const values: Record<string, bigint> = {
+      getOwnerTokens: 5n,
+      tradeable: 2n,
+      unused: 1n,
+    };
+    const client = fakePublicClient({
+      getBlockNumber: async () => 42n,
+      contracts: ({ address, functionName }) => {
+        if (functionName === "spigot") return SPIGOT;
+        if (functionName === "getOwnerTokens") expect(address).toBe(SPIGOT);
+        return values[functionName];
+      },
+    });
+
+    expect(await readSpigotRevenue(client, LINE, [WETH, USDC])).toEqual([
+      { token: WETH, claimable: 5n, tradeable: 2n, unused: 1n },
+      { token: USDC, claimable: 5n, tradeable: 2n, unused: 1n },
+    ]);
+  });
+});
@@ -1,11 +1,39 @@
 import { describe, expect, it } from "vitest";
-import { SecuredLine } from "../src";
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeAbiParameters,
+  http,
+  keccak256,
+  numberToHex,
+  parseAbiParameters,
+} from "viem";
+import { hardhat } from "viem/chains";
+import {
+  InsufficientAllowanceError,
+  type LineEvent,
+  LineStatus,
+  MissingRoleError,
+  NoLiquidityError,
+  NoMatchingProposalError,
+  NoSignerError,
+  PriceImpactTooHighError,
+  SecuredLine,
+  SecuredLineAdmin,
+  UnsupportedChainError,
+  WithdrawExceedsAvailableError,
+  accountFromMnemonic,
+  createStubQuoteProvider,
+} from "../src";
 import {
   LINE_ADDRESS,
   RPC,
+  TEST_ADDRESS,
   TEST_SECRET,
   USDC_TOKEN_ADDRESS,
 } from "./constants";
+import SecuredLineABI from "../src/contracts/abis/SecuredLine";
 
 const initLine = () => {
   return new SecuredLine({
@@ -52,6 +80,17 @@ describe("SecuredLine", () => {
     }).rejects.toThrowError(/NoLiquidity/);
   });
 
+  it("surfaces a failed borrow as a typed line error", async () => {
+    const line = initLine();
+
+    const error = await line
+      .borrow({ positionId: 8n, amount: 100_000_000_000n })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NoLiquidityError);
+    expect(error).toMatchObject({ code: "NO_LIQUIDITY" });
+  });
+
   it("sends a borrow tx that fails on an invalid position", async () => {
     const line = initLine();
 
@@ -113,4 +152,696 @@ describe("SecuredLine", () => {
     expect(liquidity.availableAssets).toBe(49_997_991_919n); // 49,997.99 USDC
     expect(liquidity.claimableInterest).toBe(285_932_389n); // 285.93 USDC
   });
+
+  it("fails a repayment pre-flight without allowance", async () => {
+    const line = initLine();
+
+    await expect(async () => {
+      await line.repay({ amount: 1_000_000n });
+    }).rejects.toThrowError(InsufficientAllowanceError);
+
+    await expect(async () => {
+      await line.repay({ amount: 1_000_000n });
+    }).rejects.toThrowError("insufficient USDC allowance: have 0 need 1");
+  });
+
+  it("fails a repayment pre-flight above the wallet balance", async () => {
+    const line = initLine();
+
+    await expect(async () => {
+      await line.repay({ amount: 1_000_000_000_000n, approve: "exact" });
+    }).rejects.toThrowError(
+      /^insufficient USDC balance: have [\d.]+ need 1000000$/,
+    );
+  });
+
+  it("repays interest from the borrower wallet", async () => {
+    const line = initLine();
+
+    const positionBefore = await line.getPosition(8n);
+    const { receipt, events } = await line.repay({
+      amount: 1_000_000n,
+      approve: "exact",
+    });
+
+    expect(receipt.status).toBe("success");
+    expect(events).toHaveLength(1);
+    expect(events[0]?.eventName).toBe("RepayInterest");
+    expect(events[0]?.args).toEqual({ id: 8n, amount: 1_000_000n });
+
+    const positionAfter = await line.getPosition(8n);
+    expect(positionAfter.principal).toBe(positionBefore.principal);
+    expect(positionAfter.interestRepaid).toBe(
+      positionBefore.interestRepaid + 1_000_000n,
+    );
+
+    const usdc = await line.getCreditToken(8n);
+    expect(await usdc.allowance(TEST_ADDRESS, LINE_ADDRESS)).toBe(0n);
+  });
+
+  it("fails to repay from empty reserves", async () => {
+    const line = initLine();
+
+    await expect(async () => {
+      await line.repayFromReserves({ amount: 1_000_000n });
+    }).rejects.toThrowError(/ReservesOverdrawn/);
+  });
+
+  it("fails to close a position with outstanding principal", async () => {
+    const line = initLine();
+
+    await expect(async () => {
+      await line.closePosition(8n);
+    }).rejects.toThrowError(/CloseFailedWithPrincipal/);
+  });
+
+  it("previews a lender withdrawal of profit and deposit", async () => {
+    const line = initLine();
+
+    const { availableAssets, claimableInterest } =
+      await line.getPositionLiquidity(8n);
+    const preview = await line.previewWithdraw({
+      positionId: 8n,
+      amount: claimableInterest + 1_000_000n,
+    });
+
+    expect(availableAssets).toBeGreaterThan(1_000_000n);
+    expect(preview).toEqual({
+      profit: claimableInterest,
+      deposit: 1_000_000n,
+      fee: 0n, // position has no early withdrawal fee
+      received: claimableInterest + 1_000_000n,
+      isEarly: true,
+    });
+  });
+
+  it("rejects a withdrawal preview above the available liquidity", async () => {
+    const line = initLine();
+
+    const { availableAssets, claimableInterest } =
+      await line.getPositionLiquidity(8n);
+
+    await expect(async () => {
+      await line.previewWithdraw({
+        positionId: 8n,
+        amount: availableAssets + claimableInterest + 1n,
+      });
+    }).rejects.toThrowError(WithdrawExceedsAvailableError);
+  });
+
+  it("reads claimable early withdrawal fees", async () => {
+    const line = initLine();
+
+    expect(await line.getClaimableEarlyWithdrawalFees(8n)).toBe(0n);
+  });
+
+  it("registers and revokes a refinance proposal", async () => {
+    const line = initLine();
+
+    const proposal = await line.buildRefinanceCreditProposal({
+      positionId: 8n,
+      amount: 0n,
+      dRate: 1200n,
+      fRate: 150n,
+      deadline: 1767225600n,
+    });
+    const proposalId = await line.getProposalId(proposal);
+
+    expect(await line.hasCounterpartyProposed(proposal)).toBe(false);
+
+    const { events } = await line.submitProposal(proposal);
+    expect(events).toHaveLength(1);
+    expect(events[0]?.eventName).toBe("MutualConsentRegistered");
+    expect(events[0]?.args).toMatchObject({ proposalId });
+    expect(await line.isProposedBy(proposal, TEST_ADDRESS)).toBe(true);
+
+    const revoked = await line.revokeProposal(proposal);
+    expect(revoked.events[0]?.eventName).toBe("MutualConsentRevoked");
+    expect(await line.isProposedBy(proposal, TEST_ADDRESS)).toBe(false);
+  });
+
+  it("refuses to accept a proposal the counterparty has not made", async () => {
+    const line = initLine();
+
+    const proposal = await line.buildRefinanceCreditProposal({
+      positionId: 8n,
+      amount: 0n,
+      dRate: 1200n,
+      fRate: 150n,
+      deadline: 1767225600n,
+    });
+
+    await expect(async () => {
+      await line.acceptProposal(proposal);
+    }).rejects.toThrowError(NoMatchingProposalError);
+  });
+
+  it("reads positions from a read-only line", async () => {
+    const line = new SecuredLine({
+      address: LINE_ADDRESS,
+      chainId: "hardhat",
+      rpcUrl: RPC,
+    });
+
+    expect(line.isReadOnly).toBe(true);
+    expect(await line.getOpenPositionIds()).toEqual([8n]);
+    expect((await line.getPosition(8n)).token).toBe(USDC_TOKEN_ADDRESS);
+  });
+
+  it("rejects writes on a read-only line", async () => {
+    const line = new SecuredLine({
+      address: LINE_ADDRESS,
+      chainId: "hardhat",
+      rpcUrl: RPC,
+    });
+
+    await expect(async () => {
+      // @ts-expect-error read-only lines expose no write methods
+      await line.borrow({ positionId: 8n, amount: 1_000_000n });
+    }).rejects.toThrowError(NoSignerError);
+  });
+
+  it("borrows with a viem account in place of a private key", async () => {
+    const line = new SecuredLine({
+      address: LINE_ADDRESS,
+      chainId: "hardhat",
+      rpcUrl: RPC,
+      account: accountFromMnemonic(
+        "test test test test test test test test test test test junk",
+      ),
+    });
+
+    const txHash = await line.borrow({ positionId: 8n, amount: 1_000_000n });
+
+    expect(line.isReadOnly).toBe(false);
+    expect(txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+  });
+
+  it("sends reads and writes through a fallback endpoint list", async () => {
+    const line = new SecuredLine({
+      address: LINE_ADDRESS,
+      privateKey: TEST_SECRET,
+      chainId: "hardhat",
+      rpcUrl: ["http://127.0.0.1:1", RPC],
+    });
+
+    expect(await line.getOpenPositionIds()).toEqual([8n]);
+
+    const txHash = await line.borrow({ positionId: 8n, amount: 1_000_000n });
+    expect(txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+  });
+
+  it("rejects an unknown chainId up front", () => {
+    expect(
+      () =>
+        new SecuredLine({
+          address: LINE_ADDRESS,
+          // @ts-expect-error not a viem/chains key
+          chainId: "notAChain",
+          rpcUrl: RPC,
+        }),
+    ).toThrowError(UnsupportedChainError);
+  });
+
+  it("reads the whole line state in one snapshot", async () => {
+    const line = initLine();
+
+    const snapshot = await line.getLineState();
+
+    expect(snapshot.status).toBe(LineStatus.Active);
+    expect(snapshot.borrower).toBe(TEST_ADDRESS);
+    expect(snapshot.positions.map((p) => p.id)).toEqual([8n]);
+
+    const [position] = snapshot.positions;
+    expect(position).toMatchObject(await line.getPosition(8n));
+    expect(position).toMatchObject(await line.getPositionLiquidity(8n));
+
+    await line.borrow({ positionId: 8n, amount: 1_000_000n });
+
+    const pinned = await line.getLineState({
+      blockNumber: snapshot.blockNumber,
+    });
+    expect(pinned.positions[0]?.principal).toBe(position?.principal);
+  });
+
+  it("reads positions as of a past block or timestamp", async () => {
+    const line = initLine();
+    const before = await line.getPosition(8n);
+    const { blockNumber } = await line.getLineState();
+    const { timestamp } = await createPublicClient({
+      chain: hardhat,
+      transport: http(RPC),
+    }).getBlock({ blockNumber });
+    const preview = await line.previewWithdraw({
+      positionId: 8n,
+      amount: 1_000_000n,
+    });
+
+    await line.borrow({ positionId: 8n, amount: 1_000_000n });
+
+    const resolved = await line.getBlockNumberAt(timestamp);
+    expect(resolved).toBeGreaterThanOrEqual(blockNumber);
+    expect(await line.getPosition(8n, { blockNumber })).toEqual(before);
+    expect(await line.getOpenPositionIds({ blockNumber })).toEqual([8n]);
+    expect(
+      await line.previewWithdraw({
+        positionId: 8n,
+        amount: 1_000_000n,
+        blockNumber,
+      }),
+    ).toEqual(preview);
+    expect((await line.getPosition(8n, { blockTag: "latest" })).principal).toBe(
+      before.principal + 1_000_000n,
+    );
+  });
+
+  it("lists past borrows of a position with their timestamps", async () => {
+    const line = initLine();
+    const { blockNumber: fromBlock } = await line.getLineState();
+
+    const txHash = await line.borrow({ positionId: 8n, amount: 1_000_000n });
+
+    const events = await line.getEvents({
+      fromBlock,
+      types: ["Borrow"],
+      positionId: 8n,
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eventName: "Borrow",
+      args: { id: 8n, amount: 1_000_000n, to: TEST_ADDRESS },
+      transactionHash: txHash,
+    });
+    expect(events[0]?.timestamp).toBeGreaterThan(0n);
+  });
+
+  it("streams new borrows to a watcher", async () => {
+    const line = initLine();
+
+    const event = new Promise<LineEvent<"Borrow">>((resolve) => {
+      const unwatch = line.watch(
+        {
+          Borrow: (borrow) => {
+            unwatch();
+            resolve(borrow);
+          },
+        },
+        { pollingInterval: 100 },
+      );
+    });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const txHash = await line.borrow({ positionId: 8n, amount: 1_000_000n });
+
+    expect(await event).toMatchObject({
+      eventName: "Borrow",
+      args: { id: 8n, amount: 1_000_000n },
+      transactionHash: txHash,
+    });
+  });
+
+  it("simulates a borrow without sending it", async () => {
+    const line = initLine();
+    const before = await line.getPosition(8n);
+
+    const simulation = await line.simulate.borrow({
+      positionId: 8n,
+      amount: 1_000_000n,
+    });
+
+    expect(simulation).toMatchObject({
+      functionName: "borrow",
+      success: true,
+      error: undefined,
+      approvals: [],
+    });
+    expect(simulation.gas).toBeGreaterThan(0n);
+    expect(simulation.deltas?.positions).toEqual([
+      expect.objectContaining({ id: 8n, principal: 1_000_000n }),
+    ]);
+    expect(simulation.deltas?.balances).toEqual([
+      { token: USDC_TOKEN_ADDRESS, amount: 1_000_000n },
+    ]);
+    expect(await line.getPosition(8n)).toEqual(before);
+  });
+
+  it("reports a simulated revert as a typed error", async () => {
+    const line = initLine();
+    const { availableAssets } = await line.getPositionLiquidity(8n);
+
+    const simulation = await line.simulate.borrow({
+      positionId: 8n,
+      amount: availableAssets + 1n,
+    });
+
+    expect(simulation.success).toBe(false);
+    expect(simulation.error).toBeInstanceOf(NoLiquidityError);
+    expect(simulation.gas).toBeUndefined();
+  });
+
+  it("borrows with a fixed fee strategy and exposes the hash", async () => {
+    const line = initLine();
+    const publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http(RPC),
+    });
+    const { baseFeePerGas } = await publicClient.getBlock();
+    const maxFeePerGas = baseFeePerGas! * 3n;
+
+    const tx = line.borrow({
+      positionId: 8n,
+      amount: 1_000_000n,
+      confirmations: 1,
+      fees: { type: "fixed", maxFeePerGas, maxPriorityFeePerGas: 1n },
+    });
+    const hash = await tx.hash;
+
+    expect(await tx).toBe(hash);
+    expect(await publicClient.getTransaction({ hash })).toMatchObject({
+      maxFeePerGas,
+      maxPriorityFeePerGas: 1n,
+    });
+  });
+
+  it("queues concurrent writes from one account across lines", async () => {
+    const [line, otherLine] = [initLine(), initLine()];
+    const before = await line.getPosition(8n);
+
+    const hashes = await Promise.all([
+      line.borrow({ positionId: 8n, amount: 1_000_000n }),
+      otherLine.borrow({ positionId: 8n, amount: 1_000_000n }),
+      line.borrow({ positionId: 8n, amount: 1_000_000n }),
+    ]);
+
+    expect(new Set(hashes).size).toBe(3);
+    expect((await line.getPosition(8n)).principal).toBe(
+      before.principal + 3_000_000n,
+    );
+    expect(await line.getPendingTransactions()).toEqual([]);
+  });
+
+  it("projects interest matching the line's own accrual", async () => {
+    const line = initLine();
+    const publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http(RPC),
+    });
+    const { timestamp } = await publicClient.getBlock();
+
+    const { projected } = await line.getPositionWithProjectedInterest(
+      8n,
+      timestamp,
+    );
+    const onChain = await publicClient.readContract({
+      address: LINE_ADDRESS,
+      abi: SecuredLineABI,
+      functionName: "interestAccrued",
+      args: [8n],
+    });
+
+    expect(projected.interestAccrued).toBe(onChain);
+  });
+
+  it("quotes the payoff of the open position", async () => {
+    const line = initLine();
+    const at = BigInt(Math.floor(Date.now() / 1000)) + 86_400n;
+    const { projected, principal } =
+      await line.getPositionWithProjectedInterest(8n, at);
+
+    const { steps, totals } = await line.getPayoffQuote({
+      positionId: 8n,
+      at,
+    });
+
+    expect(steps).toEqual([
+      expect.objectContaining({
+        id: 8n,
+        method: principal > 0n ? "depositAndClose" : "close",
+        principal,
+        interest: projected.interestAccrued,
+        amount: principal + projected.interestAccrued,
+      }),
+    ]);
+    expect(totals).toEqual([
+      {
+        token: USDC_TOKEN_ADDRESS,
+        amount: principal + projected.interestAccrued,
+      },
+    ]);
+  });
+
+  it("parses and formats amounts with the position token decimals", async () => {
+    const line = initLine();
+
+    expect(await line.getTokenMetadata(8n)).toMatchObject({
+      address: USDC_TOKEN_ADDRESS,
+      symbol: "USDC",
+      decimals: 6,
+    });
+    expect(await line.parseAmount("10000", 8n)).toBe(10_000_000_000n);
+    expect(await line.formatAmount(1_500_000n, 8n)).toBe("1.5");
+
+    const position = await line.getPosition(8n);
+    const formatted = await line.getPosition(8n, { format: true });
+    expect(formatted.principal).toEqual({
+      raw: position.principal,
+      formatted: await line.formatAmount(position.principal, 8n),
+      symbol: "USDC",
+    });
+    expect(formatted.deadline).toBe(position.deadline);
+  });
+
+  it("borrows a token amount", async () => {
+    const line = initLine();
+    const before = await line.getPosition(8n);
+
+    await line.borrow({
+      positionId: 8n,
+      amount: { raw: 1_000_000n, formatted: "1", symbol: "USDC" },
+    });
+
+    expect((await line.getPosition(8n)).principal).toBe(
+      before.principal + 1_000_000n,
+    );
+  });
+
+  it("reads position rates in bps, APR and APY", async () => {
+    const line = initLine();
+
+    const rates = await line.getRates(8n);
+    const [position] = (await line.getLineState()).positions;
+
+    expect(rates.dRate.raw).toBe(position?.dRate);
+    expect(rates.dRate.apr).toBe(rates.dRate.bps / 10_000);
+    expect(rates.dRate.apy).toBeGreaterThanOrEqual(rates.dRate.apr);
+    expect(position?.rates).toEqual({ dRate: rates.dRate, fRate: rates.fRate });
+  });
+
+  it("reports the line status, health and position deadlines", async () => {
+    const line = initLine();
+    const publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http(RPC),
+    });
+    const [{ timestamp }, { deadline }] = await Promise.all([
+      publicClient.getBlock(),
+      line.getPosition(8n),
+    ]);
+
+    expect(await line.getStatus()).toBe(LineStatus.Active);
+    expect(await line.checkHealth()).toMatchObject({
+      status: LineStatus.Active,
+      predicted:
+        deadline <= timestamp ? LineStatus.Liquidatable : LineStatus.Active,
+    });
+    expect(await line.getDeadlines()).toEqual([
+      {
+        id: 8n,
+        deadline,
+        secondsRemaining: deadline - timestamp,
+        isPastDeadline: deadline <= timestamp,
+      },
+    ]);
+  });
+
+  it("rejects admin operations from a wallet without the role", async () => {
+    const admin = new SecuredLineAdmin({
+      address: LINE_ADDRESS,
+      privateKey: TEST_SECRET,
+      chainId: "hardhat",
+      rpcUrl: RPC,
+    });
+
+    await expect(
+      admin.setServicer({ servicer: TEST_ADDRESS }),
+    ).rejects.toBeInstanceOf(MissingRoleError);
+  });
+
+  it("approves and revokes a servicer as admin", async () => {
+    const publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http(RPC),
+    });
+    const adminAddress = await publicClient.readContract({
+      address: LINE_ADDRESS,
+      abi: SecuredLineABI,
+      functionName: "admin",
+    });
+    const testClient = createTestClient({
+      chain: hardhat,
+      mode: "anvil",
+      transport: http(RPC),
+    });
+    await testClient.impersonateAccount({ address: adminAddress });
+    await testClient.setBalance({
+      address: adminAddress,
+      value: 10n ** 18n,
+    });
+
+    const admin = new SecuredLineAdmin({
+      address: LINE_ADDRESS,
+      chainId: "hardhat",
+      rpcUrl: RPC,
+      walletClient: createWalletClient({
+        chain: hardhat,
+        transport: http(RPC),
+        account: adminAddress,
+      }),
+    });
+
+    const { events } = await admin.setServicer({ servicer: TEST_ADDRESS });
+    expect(events).toMatchObject([
+      {
+        eventName: "ServicerApproved",
+        args: { servicer: TEST_ADDRESS, approved: true },
+      },
+    ]);
+
+    await admin.setServicer({ servicer: TEST_ADDRESS, approved: false });
+    expect(
+      await publicClient.readContract({
+        address: LINE_ADDRESS,
+        abi: SecuredLineABI,
+        functionName: "isServicer",
+        args: [TEST_ADDRESS],
+      }),
+    ).toBe(false);
+  });
+
+  it("reads the roles of the signing wallet", async () => {
+    const line = initLine();
+
+    expect(await line.getRoles()).toMatchObject({
+      address: TEST_ADDRESS,
+      borrower: true,
+      admin: false,
+      lender: false,
+      positionIds: [],
+    });
+    expect(await line.can("borrow")).toBe(true);
+    expect(await line.can("withdraw")).toBe(false);
+    expect(await line.can("withdraw", undefined, 8n)).toBe(false);
+  });
+
+  it("refuses writes the signer has no role for before sending", async () => {
+    const line = initLine();
+
+    await expect(
+      line.withdraw({ positionId: 8n, amount: 1n }),
+    ).rejects.toBeInstanceOf(MissingRoleError);
+  });
+
+  it("reads spigot revenue of the credit token", async () => {
+    const line = initLine();
+
+    const [usdc] = await line.getSpigotRevenue([USDC_TOKEN_ADDRESS]);
+    expect(usdc).toEqual({
+      token: USDC_TOKEN_ADDRESS,
+      claimable: expect.any(BigInt),
+      tradeable: expect.any(BigInt),
+      unused: expect.any(BigInt),
+    });
+  });
+
+  it("refuses to trade revenue above the allowed price impact", async () => {
+    const line = initLine();
+
+    await expect(
+      line.simulate.claimAndTrade({
+        claimToken: "0x4200000000000000000000000000000000000006",
+        buyToken: USDC_TOKEN_ADDRESS,
+        quoteProvider: createStubQuoteProvider({ priceImpact: 500n }),
+        allowedPriceImpact: 100n,
+      }),
+    ).rejects.toBeInstanceOf(PriceImpactTooHighError);
+  });
+
+  it("reads the collateral held in the line's escrow", async () => {
+    const line = initLine();
+    const escrow = await line.getEscrow();
+
+    const [tokens, deposits, minimum] = await Promise.all([
+      escrow.getCollateralTokens(),
+      escrow.getDeposits(),
+      escrow.getMinimumCollateralRatio(),
+    ]);
+    expect(deposits.map(({ token }) => token)).toEqual(tokens);
+    expect(minimum).toBeGreaterThanOrEqual(0);
+    expect(await escrow.getCollateralRatio()).toBeGreaterThanOrEqual(0n);
+  });
+
+  it("reads the revenue held in the line's spigot", async () => {
+    const line = initLine();
+    const spigot = await line.getSpigot();
+
+    expect((await spigot.getOwner()).toLowerCase()).toBe(
+      LINE_ADDRESS.toLowerCase(),
+    );
+    const [balance] = await spigot.getBalances([USDC_TOKEN_ADDRESS]);
+    expect(balance!.ownerTokens).toBeGreaterThanOrEqual(0n);
+    expect(balance!.operatorTokens).toBeGreaterThanOrEqual(0n);
+  });
+
+  it("closes a drawn position with an exact approval", async () => {
+    const line = initLine();
+    const testClient = createTestClient({
+      chain: hardhat,
+      mode: "anvil",
+      transport: http(RPC),
+    });
+    const snapshot = await testClient.snapshot();
+
+    try {
+      const { principal } = await line.getPosition(8n);
+      expect(principal).toBeGreaterThan(0n);
+
+      // Fund the wallet through USDC's `balanceAndBlacklistStates` mapping
+      // (slot 9), whose low bits hold the balance.
+      await testClient.setStorageAt({
+        address: USDC_TOKEN_ADDRESS,
+        index: keccak256(
+          encodeAbiParameters(parseAbiParameters("address, uint256"), [
+            TEST_ADDRESS,
+            9n,
+          ]),
+        ),
+        value: numberToHex(principal * 2n, { size: 32 }),
+      });
+
+      // The approval and the close are mined in separate blocks, so the
+      // close owes more interest than was due when the approval was sized.
+      const { receipt, events } = await line.repayAndClose({
+        approve: "exact",
+      });
+
+      expect(receipt.status).toBe("success");
+      expect(events.map(({ eventName }) => eventName)).toContain(
+        "CloseCreditPosition",
+      );
+      expect(await line.getOpenPositionIds()).not.toContain(8n);
+    } finally {
+      await testClient.revert({ id: snapshot });
+    }
+  });
 });
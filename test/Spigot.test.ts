@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Hex,
+  type Log,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  numberToHex,
+  parseAbiParameters,
+  zeroHash,
+} from "viem";
+import {
+  NoRevenueError,
+  NoSignerError,
+  Spigot,
+  SpigotRevertError,
+} from "../src";
+import SpigotABI from "../src/contracts/abis/Spigot";
+import { fakePublicClient, fakeSignerClient } from "./fakes";
+
+const SPIGOT = "0x00000000000000000000000000000000000005b1";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const FEES = "0x00000000000000000000000000000000000000f1";
+const MARKET = "0x00000000000000000000000000000000000000F2";
+
+const log = (
+  blockNumber: bigint,
+  topics: Log["topics"],
+  data: Hex = "0x",
+): Log => ({
+  address: SPIGOT,
+  blockHash: zeroHash,
+  blockNumber,
+  data,
+  logIndex: 0,
+  removed: false,
+  topics,
+  transactionHash: numberToHex(blockNumber, { size: 32 }),
+  transactionIndex: 0,
+});
+
+const addSpigot = (blockNumber: bigint, revenueContract: Hex) =>
+  log(
+    blockNumber,
+    encodeEventTopics({
+      abi: SpigotABI,
+      eventName: "AddSpigot",
+      args: { revenueContract },
+    }) as Log["topics"],
+    encodeAbiParameters(parseAbiParameters("uint256, bytes4, bytes4"), [
+      90n,
+      "0x00000000",
+      "0xf2fde38b",
+    ]),
+  );
+
+const removeSpigot = (blockNumber: bigint, revenueContract: Hex) =>
+  log(
+    blockNumber,
+    encodeEventTopics({
+      abi: SpigotABI,
+      eventName: "RemoveSpigot",
+      args: { revenueContract },
+    }) as Log["topics"],
+    encodeAbiParameters(parseAbiParameters("address"), [USDC]),
+  );
+
+const publicClient = fakePublicClient({
+  getBlock: async () => ({ number: 300n }),
+  getBlockNumber: async () => 300n,
+  getLogs: async () => [
+    addSpigot(100n, FEES),
+    addSpigot(150n, MARKET),
+    removeSpigot(200n, FEES),
+  ],
+  contracts: ({ functionName, args: [revenueContract] }) => {
+    if (functionName === "getSetting") {
+      return [revenueContract === MARKET ? 80 : 90, "0x00000000", "0xf2fde38b"];
+    }
+    if (functionName === "getOwnerTokens") return 5_000_000n;
+    if (functionName === "getOperatorTokens") return 1_250_000n;
+    return SPIGOT;
+  },
+});
+
+describe("Spigot", () => {
+  const spigot = new Spigot({ address: SPIGOT, publicClient });
+
+  it("replays added and removed revenue contracts", async () => {
+    expect(await spigot.getRevenueContracts({ fromBlock: 0n })).toEqual([
+      {
+        address: MARKET,
+        ownerSplit: 80,
+        claimFunction: "0x00000000",
+        transferOwnerFunction: "0xf2fde38b",
+      },
+    ]);
+  });
+
+  it("reads the escrowed owner and operator tokens", async () => {
+    expect(await spigot.getBalances([USDC])).toEqual([
+      { token: USDC, ownerTokens: 5_000_000n, operatorTokens: 1_250_000n },
+    ]);
+  });
+
+  it("refuses to write without a signer", async () => {
+    await expect(
+      spigot.claimRevenue({ revenueContract: MARKET, token: USDC }),
+    ).rejects.toBeInstanceOf(NoSignerError);
+  });
+
+  it("decodes spigot reverts", async () => {
+    const revert = new ContractFunctionExecutionError(
+      new ContractFunctionRevertedError({
+        abi: SpigotABI,
+        data: encodeErrorResult({ abi: SpigotABI, errorName: "NoRevenue" }),
+        functionName: "claimRevenue",
+      }),
+      {
+        abi: SpigotABI,
+        args: [MARKET, USDC, "0x"],
+        contractAddress: SPIGOT,
+        functionName: "claimRevenue",
+      },
+    );
+    const signer = new Spigot({
+      address: SPIGOT,
+      publicClient: fakePublicClient({
+        estimateContractGas: async () => {
+          throw revert;
+        },
+      }),
+      walletClient: fakeSignerClient({
+        account: { address: FEES, type: "json-rpc" },
+      }),
+    });
+
+    const error = await signer
+      .claimRevenue({ revenueContract: MARKET, token: USDC })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NoRevenueError);
+    expect(error).toBeInstanceOf(SpigotRevertError);
+    expect(error).toMatchObject({
+      code: "NO_REVENUE",
+      errorName: "NoRevenue",
+      cause: revert,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  InvalidKeystoreError,
+  accountFromKeystore,
+  accountFromMnemonic,
+} from "../src";
+import { TEST_ADDRESS } from "./constants";
+
+// pbkdf2 test vector from the Web3 Secret Storage definition
+const PASSWORD = "testpassword";
+const PRIVATE_KEY_ADDRESS = "0x008AeEda4D805471dF9b2A5B0f38A0C3bCBA786b";
+
+const PBKDF2_KEYSTORE = {
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext:
+      "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+  },
+  version: 3,
+} as const;
+
+// Same key encrypted with geth's "light" scrypt parameters
+const SCRYPT_KEYSTORE = {
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "cecacd85e9cb89788b5aab2f93361233" },
+    ciphertext:
+      "f000b65d82541a2a5d1efa6af9b287509f091bcd0909a99a496c73b859d85a9c",
+    kdf: "scrypt",
+    kdfparams: {
+      dklen: 32,
+      n: 4096,
+      p: 6,
+      r: 8,
+      salt: "dc9e4a98886738bd8aae134a1f89aaa5a502c3fbd10e336136d4d5fe47448ad6",
+    },
+    mac: "71b6573f32f4e27b7a4cb3ce89ce6651f9c35ed57fe6532cf846838fda1eaf5a",
+  },
+  version: 3,
+} as const;
+
+const MNEMONIC = "test test test test test test test test test test test junk";
+
+describe("accounts", () => {
+  it("derives the default account from a mnemonic", () => {
+    expect(accountFromMnemonic(MNEMONIC).address).toBe(TEST_ADDRESS);
+  });
+
+  it("derives accounts at a custom path", () => {
+    const account = accountFromMnemonic(MNEMONIC, { path: "m/44'/60'/0'/0/1" });
+
+    expect(account.address).toBe("0x70997970C51812dc3A010C7d01b50e0d17dc79C8");
+  });
+
+  it("decrypts pbkdf2 keystores", async () => {
+    const account = await accountFromKeystore(PBKDF2_KEYSTORE, PASSWORD);
+
+    expect(account.address).toBe(PRIVATE_KEY_ADDRESS);
+  });
+
+  it("decrypts scrypt keystores given as JSON", async () => {
+    const account = await accountFromKeystore(
+      JSON.stringify(SCRYPT_KEYSTORE),
+      PASSWORD,
+    );
+
+    expect(account.address).toBe(PRIVATE_KEY_ADDRESS);
+  });
+
+  it("rejects a wrong password", async () => {
+    await expect(
+      accountFromKeystore(PBKDF2_KEYSTORE, "wrong"),
+    ).rejects.toThrowError(InvalidKeystoreError);
+  });
+
+  it("rejects unsupported keystores", async () => {
+    await expect(
+      accountFromKeystore(
+        {
+          ...PBKDF2_KEYSTORE,
+          crypto: { ...PBKDF2_KEYSTORE.crypto, cipher: "aes-128-cbc" },
+        },
+        PASSWORD,
+      ),
+    ).rejects.toThrowError("invalid keystore: unsupported cipher aes-128-cbc");
+  });
+});
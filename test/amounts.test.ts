@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { toRawAmount, toTokenAmount, withTokenAmounts } from "../src";
+
+const USDC = { symbol: "USDC", decimals: 6 };
+
+describe("toTokenAmount", () => {
+  it("formats smallest units with the token decimals", () => {
+    expect(toTokenAmount(10_000_500_000n, USDC)).toEqual({
+      raw: 10_000_500_000n,
+      formatted: "10000.5",
+      symbol: "USDC",
+    });
+  });
+});
+
+describe("toRawAmount", () => {
+  it("accepts bigints and token amounts", () => {
+    expect(toRawAmount(1_000_000n)).toBe(1_000_000n);
+    expect(toRawAmount(toTokenAmount(2_000_000n, USDC))).toBe(2_000_000n);
+  });
+});
+
+describe("withTokenAmounts", () => {
+  it("formats only the given keys", () => {
+    expect(
+      withTokenAmounts(
+        { principal: 1_500_000n, deadline: 1_700_000_000n },
+        ["principal"],
+        USDC,
+      ),
+    ).toEqual({
+      principal: { raw: 1_500_000n, formatted: "1.5", symbol: "USDC" },
+      deadline: 1_700_000_000n,
+    });
+  });
+});
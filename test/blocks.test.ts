@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { BlockNotFoundError, findBlockNumberByTimestamp } from "../src";
+import { fakePublicClient } from "./fakes";
+
+// Blocks 0..999, mined every 2 seconds from t = 1_000, with a 60 second gap
+// after block 500.
+const timestampOf = (blockNumber: bigint) =>
+  1_000n + blockNumber * 2n + (blockNumber > 500n ? 60n : 0n);
+
+const fakeClient = () => {
+  const requested: bigint[] = [];
+  const client = fakePublicClient({
+    getBlock: async (params) => {
+      const number = params?.blockNumber ?? 999n;
+      requested.push(number);
+      return { number, timestamp: timestampOf(number) };
+    },
+  });
+  return { client, requested };
+};
+
+describe("findBlockNumberByTimestamp", () => {
+  it("returns the block mined exactly at the timestamp", async () => {
+    const { client } = fakeClient();
+    expect(await findBlockNumberByTimestamp(client, timestampOf(321n))).toBe(
+      321n,
+    );
+  });
+
+  it("returns the last block before the timestamp", async () => {
+    const { client } = fakeClient();
+    expect(
+      await findBlockNumberByTimestamp(client, timestampOf(42n) + 1n),
+    ).toBe(42n);
+    expect(
+      await findBlockNumberByTimestamp(client, timestampOf(500n) + 30n),
+    ).toBe(500n);
+  });
+
+  it("accepts a Date", async () => {
+    const { client } = fakeClient();
+    const date = new Date(Number(timestampOf(7n)) * 1000 + 999);
+    expect(await findBlockNumberByTimestamp(client, date)).toBe(7n);
+  });
+
+  it("returns the latest block for future timestamps", async () => {
+    const { client, requested } = fakeClient();
+    expect(await findBlockNumberByTimestamp(client, 10_000_000n)).toBe(999n);
+    expect(requested).toHaveLength(1);
+  });
+
+  it("needs a logarithmic number of block headers", async () => {
+    const { client, requested } = fakeClient();
+    await findBlockNumberByTimestamp(client, timestampOf(777n));
+    expect(requested.length).toBeLessThanOrEqual(12);
+  });
+
+  it("rejects timestamps before genesis", async () => {
+    const { client } = fakeClient();
+    await expect(findBlockNumberByTimestamp(client, 999n)).rejects.toThrowError(
+      BlockNotFoundError,
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeErrorResult,
+} from "viem";
+import {
+  CallerAccessDeniedError,
+  EscrowCallerAccessDeniedError,
+  LineRevertError,
+  NoLiquidityError,
+  ReservesOverdrawnError,
+  toLineError,
+} from "../src";
+import EscrowABI from "../src/contracts/abis/Escrow";
+import SecuredLineABI from "../src/contracts/abis/SecuredLine";
+import { LINE_ADDRESS, USDC_TOKEN_ADDRESS } from "./constants";
+
+const revert = (data: `0x${string}`) =>
+  new ContractFunctionExecutionError(
+    new ContractFunctionRevertedError({
+      abi: SecuredLineABI,
+      data,
+      functionName: "borrow",
+    }),
+    {
+      abi: SecuredLineABI,
+      args: [8n, 1n, LINE_ADDRESS],
+      contractAddress: LINE_ADDRESS,
+      functionName: "borrow",
+    },
+  );
+
+describe("toLineError", () => {
+  it("decodes argument-less reverts", () => {
+    const cause = revert(
+      encodeErrorResult({ abi: SecuredLineABI, errorName: "NoLiquidity" }),
+    );
+
+    const error = toLineError(cause);
+
+    expect(error).toBeInstanceOf(NoLiquidityError);
+    expect(error).toBeInstanceOf(LineRevertError);
+    expect(error).toMatchObject({
+      code: "NO_LIQUIDITY",
+      errorName: "NoLiquidity",
+      name: "NoLiquidityError",
+      cause,
+    });
+    expect((error as Error).message).toMatch(/^NoLiquidity: /);
+  });
+
+  it("decodes revert arguments", () => {
+    const error = toLineError(
+      revert(
+        encodeErrorResult({
+          abi: SecuredLineABI,
+          errorName: "ReservesOverdrawn",
+          args: [USDC_TOKEN_ADDRESS, 42n],
+        }),
+      ),
+    );
+
+    expect(error).toBeInstanceOf(ReservesOverdrawnError);
+    expect(error).toMatchObject({
+      code: "RESERVES_OVERDRAWN",
+      token: USDC_TOKEN_ADDRESS,
+      amountAvailable: 42n,
+    });
+  });
+
+  it("decodes against the ABI of the called contract", () => {
+    const cause = revert(
+      encodeErrorResult({ abi: EscrowABI, errorName: "CallerAccessDenied" }),
+    );
+
+    expect(toLineError(cause)).toBeInstanceOf(CallerAccessDeniedError);
+    expect(toLineError(cause, EscrowABI)).toBeInstanceOf(
+      EscrowCallerAccessDeniedError,
+    );
+  });
+
+  it("leaves other errors untouched", () => {
+    const cause = new Error("network down");
+    const panic = revert(
+      encodeErrorResult({
+        abi: [
+          {
+            type: "error",
+            name: "Panic",
+            inputs: [{ type: "uint256", name: "code" }],
+          },
+        ],
+        errorName: "Panic",
+        args: [0x11n],
+      }),
+    );
+
+    expect(toLineError(cause)).toBe(cause);
+    expect(toLineError(panic)).toBe(panic);
+  });
+});
@@ -0,0 +1,90 @@
+import { type Address, type BlockTag, type PublicClient } from "viem";
+import { type SignerClient } from "../src/signer";
+
+/**
+ * A contract read as seen by a fake client, whichever of `readContract`,
+ * `multicall` or `simulateContract` made it.
+ */
+export type ContractCall = {
+  address: Address;
+  functionName: string;
+  args: readonly unknown[];
+};
+
+type ContractCallParameters = {
+  address?: Address | undefined;
+  functionName: string;
+  args?: readonly unknown[] | undefined;
+};
+
+/** The methods of `client`, each taking the parameters of the real one. */
+type Methods<client> = {
+  [method in keyof client as client[method] extends (
+    ...args: never[]
+  ) => unknown
+    ? method
+    : never]?: client[method] extends (params: infer params) => unknown
+    ? (params: params) => unknown
+    : never;
+};
+
+/**
+ * Builds a `PublicClient` for unit tests that implements only what a test
+ * needs. Each method takes the parameters of the real client's method, and
+ * contract reads, single or batched, are all answered by `contracts`.
+ * Anything else is missing, so calling it fails the test.
+ */
+export function fakePublicClient({
+  contracts,
+  ...methods
+}: Methods<PublicClient> & {
+  contracts?: (call: ContractCall) => unknown;
+}): PublicClient {
+  const read = async ({
+    address,
+    functionName,
+    args = [],
+  }: ContractCallParameters) => {
+    if (!contracts || !address) {
+      throw new Error(`unexpected call of ${functionName}`);
+    }
+    return contracts({ address, functionName, args });
+  };
+
+  const client = {
+    readContract: read,
+    multicall: ({ contracts }: { contracts: ContractCallParameters[] }) =>
+      Promise.all(contracts.map(read)),
+    simulateContract: async (call: ContractCallParameters) => ({
+      result: await read(call),
+    }),
+    ...methods,
+  };
+  return client as unknown as PublicClient;
+}
+
+/**
+ * Builds a `SignerClient` for unit tests from the account it signs with, its
+ * chain id and the methods a test needs.
+ */
+export function fakeSignerClient({
+  account,
+  chainId = 1,
+  ...methods
+}: Methods<SignerClient> & {
+  account: { address: Address; type: "local" | "json-rpc" };
+  chainId?: number;
+}): SignerClient {
+  const client = { account, chain: { id: chainId }, ...methods };
+  return client as unknown as SignerClient;
+}
+
+/**
+ * Narrows a block parameter the code under test always passes as a number.
+ */
+export function blockNumberOf(block: bigint | BlockTag | undefined): bigint {
+  if (typeof block !== "bigint") {
+    throw new Error(`expected a block number, got ${block}`);
+  }
+  return block;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { Eip1559FeesNotSupportedError } from "viem";
+import { bumpFees, resolveFees } from "../src";
+import { fakePublicClient } from "./fakes";
+
+const gwei = 1_000_000_000n;
+
+const fakeClient = ({
+  baseFeePerGas = 10n * gwei,
+  rewards = [[1n * gwei], [3n * gwei], [2n * gwei]],
+}: {
+  baseFeePerGas?: bigint | null;
+  rewards?: bigint[][];
+} = {}) =>
+  fakePublicClient({
+    getBlock: async () => ({ baseFeePerGas }),
+    estimateMaxPriorityFeePerGas: async () => 1n * gwei,
+    getFeeHistory: async () => ({
+      baseFeePerGas:
+        baseFeePerGas === null ? [] : [baseFeePerGas, baseFeePerGas * 2n],
+      reward: rewards,
+    }),
+  });
+
+describe("resolveFees", () => {
+  it("returns fixed fees as-is", async () => {
+    expect(
+      await resolveFees(fakeClient(), {
+        type: "fixed",
+        maxFeePerGas: 5n,
+        maxPriorityFeePerGas: 1n,
+      }),
+    ).toEqual({ maxFeePerGas: 5n, maxPriorityFeePerGas: 1n });
+  });
+
+  it("multiplies the latest base fee", async () => {
+    expect(
+      await resolveFees(fakeClient(), {
+        type: "baseFeeMultiplier",
+        multiplier: 1.5,
+      }),
+    ).toEqual({
+      maxFeePerGas: 16n * gwei,
+      maxPriorityFeePerGas: 1n * gwei,
+    });
+  });
+
+  it("prices from the median reward of the fee history", async () => {
+    expect(
+      await resolveFees(fakeClient(), { type: "feeHistory", percentile: 50 }),
+    ).toEqual({
+      // 2 × the next base fee (20 gwei) + the median reward
+      maxFeePerGas: 42n * gwei,
+      maxPriorityFeePerGas: 2n * gwei,
+    });
+  });
+
+  it("rejects chains without a base fee", async () => {
+    const client = fakeClient({ baseFeePerGas: null });
+    await expect(
+      resolveFees(client, { type: "baseFeeMultiplier", multiplier: 2 }),
+    ).rejects.toThrowError(Eip1559FeesNotSupportedError);
+    await expect(
+      resolveFees(client, { type: "feeHistory", percentile: 50 }),
+    ).rejects.toThrowError(Eip1559FeesNotSupportedError);
+  });
+});
+
+describe("bumpFees", () => {
+  it("raises both fees by 12.5%, rounding up", () => {
+    expect(
+      bumpFees({ maxFeePerGas: 1_000n, maxPriorityFeePerGas: 9n }),
+    ).toEqual({ maxFeePerGas: 1_125n, maxPriorityFeePerGas: 11n });
+  });
+
+  it("keeps requested fees above the minimum bump", () => {
+    expect(
+      bumpFees(
+        { maxFeePerGas: 1_000n, maxPriorityFeePerGas: 100n },
+        { maxFeePerGas: 2_000n, maxPriorityFeePerGas: 100n },
+      ),
+    ).toEqual({ maxFeePerGas: 2_000n, maxPriorityFeePerGas: 113n });
+  });
+});
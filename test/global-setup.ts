@@ -2,13 +2,13 @@ import {
   type Address,
   createPublicClient,
   createWalletClient,
-  getContract,
   http,
 } from "viem";
 import { spawn } from "child_process";
 import waitOn from "wait-on";
 import { hardhat } from "viem/chains";
 
+import { SecuredLineAdmin } from "../src";
 import SecuredLineABI from "../src/contracts/abis/SecuredLine.ts";
 
 import {
@@ -63,17 +63,20 @@ export default async function () {
     account: OLD_BORROWER as Address,
   });
 
-  const securedLine = getContract({
-    address: LINE_ADDRESS as Address,
-    abi: SecuredLineABI,
-    client: oldBorrowerWallet,
+  const securedLine = new SecuredLineAdmin({
+    address: LINE_ADDRESS,
+    chainId: "hardhat",
+    rpcUrl: RPC,
+    walletClient: oldBorrowerWallet,
   });
 
-  const txnHash = await securedLine.write.updateBorrower([TEST_ADDRESS]);
-
-  await client.waitForTransactionReceipt({ hash: txnHash });
+  await securedLine.updateBorrower(TEST_ADDRESS);
 
-  const borrower = await securedLine.read.borrower();
+  const borrower = await client.readContract({
+    address: LINE_ADDRESS as Address,
+    abi: SecuredLineABI,
+    functionName: "borrower",
+  });
   if (borrower !== TEST_ADDRESS) {
     throw new Error(
       `Borrower was not updated correctly. Expected ${TEST_ADDRESS}, got ${borrower}`,
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Address,
+  type Hex,
+  NonceTooLowError,
+  TransactionExecutionError,
+  TransactionNotFoundError,
+} from "viem";
+import { ERC20, NonceManager, getNonceManager } from "../src";
+import { submitTransaction } from "../src/transactions";
+import { fakePublicClient, fakeSignerClient } from "./fakes";
+
+const ACCOUNT = "0x00000000000000000000000000000000000000aa";
+const TOKEN = "0x00000000000000000000000000000000000000cc";
+const LINE = "0x00000000000000000000000000000000000000bb";
+const REQUEST = {
+  to: LINE,
+  data: "0x",
+} as const;
+
+const hashOf = (nonce: number) =>
+  `0x${nonce.toString(16).padStart(64, "0")}` as Hex;
+
+const fakeClient = (chain: { pending: number; mined: number }) =>
+  fakePublicClient({
+    getTransactionCount: async ({ blockTag }) =>
+      blockTag === "pending" ? chain.pending : chain.mined,
+    getTransaction: async ({ hash }) => {
+      if (Number(hash) >= chain.pending) {
+        throw new TransactionNotFoundError({ hash });
+      }
+      return { hash };
+    },
+    waitForTransactionReceipt: async ({ hash }) => ({ transactionHash: hash }),
+  });
+
+const nonceTooLow = () =>
+  new TransactionExecutionError(new NonceTooLowError(), {
+    account: { address: ACCOUNT, type: "json-rpc" },
+  } as never);
+
+describe("NonceManager", () => {
+  it("assigns consecutive nonces to concurrent sends", async () => {
+    const chain = { pending: 5, mined: 5 };
+    const client = fakeClient(chain);
+    const manager = new NonceManager(ACCOUNT);
+    const broadcast = async (nonce: number) => {
+      chain.pending = nonce + 1;
+      return hashOf(nonce);
+    };
+
+    const sent = await Promise.all([
+      manager.send(client, REQUEST, broadcast),
+      manager.send(client, REQUEST, broadcast),
+      manager.send(client, REQUEST, broadcast),
+    ]);
+
+    expect(sent.map(({ nonce }) => nonce)).toEqual([5, 6, 7]);
+    expect(manager.pending.map(({ nonce }) => nonce)).toEqual([5, 6, 7]);
+
+    manager.confirm(5);
+    expect(manager.pending.map(({ nonce }) => nonce)).toEqual([6, 7]);
+  });
+
+  it("rereads the nonce after a nonce too low error", async () => {
+    const chain = { pending: 3, mined: 3 };
+    const client = fakeClient(chain);
+    const manager = new NonceManager(ACCOUNT);
+    const tried: number[] = [];
+
+    await manager.send(client, REQUEST, async (nonce) => hashOf(nonce));
+    // The account sends nonces 4 and 5 from elsewhere.
+    chain.pending = 6;
+
+    const { nonce } = await manager.send(client, REQUEST, async (nonce) => {
+      tried.push(nonce);
+      if (nonce < chain.pending) {
+        throw nonceTooLow();
+      }
+      return hashOf(nonce);
+    });
+
+    expect(tried).toEqual([4, 6]);
+    expect(nonce).toBe(6);
+  });
+
+  it("does not consume the nonce of a failed send", async () => {
+    const client = fakeClient({ pending: 0, mined: 0 });
+    const manager = new NonceManager(ACCOUNT);
+
+    await expect(
+      manager.send(client, REQUEST, async () => {
+        throw new Error("insufficient funds");
+      }),
+    ).rejects.toThrowError("insufficient funds");
+
+    const { nonce } = await manager.send(client, REQUEST, async (nonce) =>
+      hashOf(nonce),
+    );
+    expect(nonce).toBe(0);
+  });
+
+  it("reuses the nonce of a dropped transaction after a sync", async () => {
+    const chain = { pending: 0, mined: 0 };
+    const client = fakeClient(chain);
+    const manager = new NonceManager(ACCOUNT);
+    const broadcast = async (nonce: number) => {
+      chain.pending = nonce + 1;
+      return hashOf(nonce);
+    };
+
+    await manager.send(client, REQUEST, broadcast);
+    await manager.send(client, REQUEST, broadcast);
+    // Nonce 0 is mined, nonce 1 falls out of the mempool.
+    chain.mined = 1;
+    chain.pending = 1;
+    await manager.sync(client);
+
+    expect(manager.pending).toEqual([]);
+    expect((await manager.send(client, REQUEST, broadcast)).nonce).toBe(1);
+  });
+});
+
+describe("getNonceManager", () => {
+  it("shares one manager per chain and account", () => {
+    expect(getNonceManager(1, ACCOUNT)).toBe(
+      getNonceManager(1, ACCOUNT.toUpperCase().replace("0X", "0x") as Hex),
+    );
+    expect(getNonceManager(1, ACCOUNT)).not.toBe(
+      getNonceManager(8453, ACCOUNT),
+    );
+  });
+});
+
+describe("approvals", () => {
+  it("share the nonce queue of line writes", async () => {
+    const chain = { pending: 9, mined: 9 };
+    const sent: { to: Address | null | undefined; nonce: number }[] = [];
+    const walletClient = fakeSignerClient({
+      account: { address: ACCOUNT, type: "local" },
+      // A chain of its own, so no other test shares the manager.
+      chainId: 31_415,
+      sendTransaction: async ({ to, nonce = 0 }) => {
+        sent.push({ to, nonce });
+        chain.pending = nonce + 1;
+        return hashOf(nonce);
+      },
+    });
+    const publicClient = fakeClient(chain);
+    const token = new ERC20({ address: TOKEN, publicClient, walletClient });
+
+    const [approval] = await Promise.all([
+      token.approve(LINE, 100n),
+      submitTransaction({
+        publicClient,
+        prepare: async () => ({
+          walletClient,
+          request: { to: LINE, data: "0x" },
+        }),
+        onMined: () => undefined,
+      }),
+    ]);
+
+    expect(sent).toEqual([
+      { to: TOKEN, nonce: 9 },
+      { to: LINE, nonce: 10 },
+    ]);
+    expect(approval).toBe(hashOf(9));
+    expect(getNonceManager(31_415, ACCOUNT).pending).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  aprToApy,
+  aprToRate,
+  apyToApr,
+  apyToRate,
+  bpsToRate,
+  toRate,
+} from "../src";
+
+describe("toRate", () => {
+  it("expresses an on-chain rate in bps, APR and APY", () => {
+    const rate = toRate(1_000n);
+
+    expect(rate).toMatchObject({ raw: 1_000n, bps: 1_000, apr: 0.1 });
+    expect(rate.apy).toBeCloseTo(0.105156, 6);
+  });
+});
+
+describe("aprToApy", () => {
+  it("compounds daily by default", () => {
+    expect(aprToApy(0.05)).toBeCloseTo(0.051267, 6);
+  });
+
+  it("compounds over the given periods", () => {
+    expect(aprToApy(0.12, 12)).toBeCloseTo(0.126825, 6);
+    expect(aprToApy(0.12, 1)).toBeCloseTo(0.12, 12);
+  });
+
+  it("is inverted by apyToApr", () => {
+    expect(apyToApr(aprToApy(0.0725))).toBeCloseTo(0.0725, 12);
+    expect(apyToApr(aprToApy(0.0725, 4), 4)).toBeCloseTo(0.0725, 12);
+  });
+});
+
+describe("on-chain rates", () => {
+  it("converts APR and APY into bps", () => {
+    expect(aprToRate(0.085)).toBe(850n);
+    expect(apyToRate(aprToApy(0.085))).toBe(850n);
+  });
+
+  it("rejects negative rates", () => {
+    expect(() => bpsToRate(-1)).toThrowError(RangeError);
+    expect(() => aprToRate(Number.NaN)).toThrowError(RangeError);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Hex,
+  type TransactionReceipt,
+  type WaitForTransactionReceiptParameters,
+  RawContractError,
+  WaitForTransactionReceiptTimeoutError,
+  encodeErrorResult,
+} from "viem";
+import { submitContractWrite, submitTransaction } from "../src/transactions";
+import {
+  type LineWriteCall,
+  NoLiquidityError,
+  TransactionReplacedError,
+  TransactionRevertedError,
+  TransactionTimeoutError,
+} from "../src";
+import SecuredLineABI from "../src/contracts/abis/SecuredLine";
+import { blockNumberOf, fakePublicClient, fakeSignerClient } from "./fakes";
+
+const SIGNER = "0x00000000000000000000000000000000000000aa";
+const LINE = "0x00000000000000000000000000000000000000bb";
+
+const fakeClients = (
+  waitForTransactionReceipt: (
+    params: WaitForTransactionReceiptParameters,
+  ) => Promise<TransactionReceipt>,
+) => {
+  const sent: Record<string, unknown>[] = [];
+  const walletClient = fakeSignerClient({
+    account: { address: SIGNER, type: "json-rpc" },
+    sendTransaction: async (request) => {
+      sent.push(request);
+      return `0x${String(sent.length).padStart(64, "0")}` as Hex;
+    },
+  });
+  const publicClient = fakePublicClient({
+    waitForTransactionReceipt,
+    getTransaction: async () => ({
+      nonce: 7,
+      maxFeePerGas: 1_000n,
+      maxPriorityFeePerGas: 100n,
+    }),
+  });
+  return { walletClient, publicClient, sent };
+};
+
+const receipt = { status: "success" } as TransactionReceipt;
+
+describe("submitTransaction", () => {
+  it("resolves to the result built from the receipt", async () => {
+    const { walletClient, publicClient, sent } = fakeClients(
+      async () => receipt,
+    );
+
+    const tx = submitTransaction({
+      publicClient,
+      prepare: async () => ({
+        walletClient,
+        request: { to: LINE, data: "0x1234" },
+      }),
+      onMined: (mined) => mined.status,
+      options: {
+        fees: { type: "fixed", maxFeePerGas: 5n, maxPriorityFeePerGas: 1n },
+      },
+    });
+
+    expect(await tx).toBe("success");
+    expect(await tx.hash).toMatch(/^0x0+1$/);
+    expect(sent).toEqual([
+      { to: LINE, data: "0x1234", maxFeePerGas: 5n, maxPriorityFeePerGas: 1n },
+    ]);
+  });
+
+  it("speeds up and cancels at the same nonce with bumped fees", async () => {
+    let mine: (() => void) | undefined;
+    const { walletClient, publicClient, sent } = fakeClients(
+      ({ onReplaced }) =>
+        new Promise((resolve) => {
+          mine = () => {
+            onReplaced?.({ reason: "cancelled" } as never);
+            resolve(receipt);
+          };
+        }),
+    );
+
+    const tx = submitTransaction({
+      publicClient,
+      prepare: async () => ({
+        walletClient,
+        request: { to: LINE, data: "0x1234", gas: 50_000n },
+      }),
+      onMined: () => "mined",
+    });
+    const rejection = expect(tx).rejects.toThrowError(TransactionReplacedError);
+
+    await tx.speedUp();
+    await tx.cancel();
+    mine!();
+    await rejection;
+
+    expect(sent.slice(1)).toEqual([
+      {
+        to: LINE,
+        data: "0x1234",
+        gas: 50_000n,
+        nonce: 7,
+        maxFeePerGas: 1_125n,
+        maxPriorityFeePerGas: 113n,
+      },
+      {
+        to: SIGNER,
+        data: "0x",
+        gas: 21_000n,
+        nonce: 7,
+        maxFeePerGas: 1_125n,
+        maxPriorityFeePerGas: 113n,
+      },
+    ]);
+  });
+
+  it("rejects with TransactionTimeoutError when not mined in time", async () => {
+    const { walletClient, publicClient } = fakeClients(async ({ hash }) => {
+      throw new WaitForTransactionReceiptTimeoutError({ hash });
+    });
+
+    const tx = submitTransaction({
+      publicClient,
+      prepare: async () => ({
+        walletClient,
+        request: { to: LINE, data: "0x" },
+      }),
+      onMined: () => "mined",
+      options: { timeout: 1_000 },
+    });
+
+    await expect(tx).rejects.toThrowError(TransactionTimeoutError);
+  });
+
+  it("rejects with the decoded revert of a reverted transaction", async () => {
+    const replays: bigint[] = [];
+    const walletClient = fakeSignerClient({
+      account: { address: SIGNER, type: "json-rpc" },
+      sendTransaction: async () => `0x${"1".padStart(64, "0")}` as Hex,
+    });
+    const publicClient = fakePublicClient({
+      estimateContractGas: async () => 50_000n,
+      waitForTransactionReceipt: async ({ hash }) =>
+        ({
+          status: "reverted",
+          transactionHash: hash,
+          blockNumber: 42n,
+        }) as TransactionReceipt,
+      call: async ({ blockNumber }) => {
+        replays.push(blockNumberOf(blockNumber));
+        throw new RawContractError({
+          data: encodeErrorResult({
+            abi: SecuredLineABI,
+            errorName: "NoLiquidity",
+          }),
+        });
+      },
+    });
+
+    const borrow: LineWriteCall = {
+      functionName: "borrow",
+      args: [8n, 1n, SIGNER],
+    };
+
+    const error = await submitContractWrite({
+      publicClient,
+      address: LINE,
+      abi: SecuredLineABI,
+      prepare: async () => ({ walletClient, call: borrow }),
+      onMined: () => "mined",
+      options: {},
+    }).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TransactionRevertedError);
+    expect(error).toMatchObject({
+      code: "TRANSACTION_REVERTED",
+      receipt: { blockNumber: 42n },
+    });
+    expect((error as TransactionRevertedError).cause).toBeInstanceOf(
+      NoLiquidityError,
+    );
+    expect(replays).toEqual([42n]);
+  });
+});